@@ -0,0 +1,245 @@
+import {
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  CodeActionProvider,
+  Diagnostic,
+  languages,
+  Range,
+  TextDocument,
+  WorkspaceEdit,
+} from 'vscode';
+
+import { Diagnostics } from './diagnostics';
+import { DocBlock } from './docblock';
+import { Documenter } from './documenter';
+import { Parser } from './parser';
+import { IDeclaration, Scanner } from './scanner';
+import { Snippets } from './snippets';
+import { Updater } from './updater';
+
+/**
+ * Describes a document scanned for the declarations to fix
+ */
+interface IScannedDocument {
+  /**
+   * The declarations of the document
+   */
+  declarations: IDeclaration[];
+
+  /**
+   * The scanned document
+   */
+  document: TextDocument;
+
+  /**
+   * The lines of the document
+   */
+  lines: string[];
+
+  /**
+   * The parser of the document
+   */
+  parser: Parser;
+}
+
+/**
+ * Provides quick fixes for the problems reported by `Diagnostics`
+ */
+export class Actions implements CodeActionProvider {
+  /**
+   * The kind of the action fixing every problem of a document
+   */
+  public static readonly fixAllKind = CodeActionKind.SourceFixAll.append('vs-docblockr');
+
+  /**
+   * The kinds of actions provided
+   */
+  public static readonly providedCodeActionKinds = [
+    CodeActionKind.QuickFix,
+    Actions.fixAllKind,
+  ];
+
+  /**
+   * Language specific code parser, resolved for each document when undefined
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the actions
+   *
+   * @param  {Parser}  parser  Code parser used for every document, the parser
+   *                           of each document is configured by the settings
+   *                           applying to it when left out
+   */
+  public constructor(parser?: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Builds the edit fixing the declarations the provided diagnostics were
+   * reported for
+   *
+   * Undocumented declarations receive a new docblock, while the docblocks of
+   * documented declarations are synchronized with their signature.
+   *
+   * @param   {TextDocument}   document     The document to fix
+   * @param   {Diagnostic[]}   diagnostics  The problems to fix
+   *
+   * @return  {WorkspaceEdit}               The edit, empty if no declaration
+   *                                        was found
+   */
+  public getEdit(document: TextDocument, diagnostics: Diagnostic[]): WorkspaceEdit {
+    return this.buildEdit(this.scanDocument(document), diagnostics);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): CodeAction[] {
+    const isOwn = (diagnostic: Diagnostic) => diagnostic.source === 'vs-docblockr';
+
+    const diagnostics = context.diagnostics.filter(isOwn);
+
+    const fixAll = context.only && Actions.fixAllKind.intersects(context.only);
+
+    if (!diagnostics.length && !fixAll) {
+      return [];
+    }
+
+    // The document is scanned once for all of the actions
+    const scanned = this.scanDocument(document);
+
+    const actions = diagnostics.map((diagnostic) => {
+      const title = diagnostic.code === Diagnostics.code ? 'Add docblock' : 'Sync docblock with signature';
+
+      const action = new CodeAction(title, CodeActionKind.QuickFix);
+
+      action.diagnostics = [diagnostic];
+      action.edit = this.buildEdit(scanned, [diagnostic]);
+      action.isPreferred = true;
+
+      return action;
+    });
+
+    if (fixAll) {
+      const action = new CodeAction('Fix all docblock problems', Actions.fixAllKind);
+
+      action.diagnostics = languages.getDiagnostics(document.uri).filter(isOwn);
+      action.edit = this.buildEdit(scanned, action.diagnostics);
+
+      actions.push(action);
+    }
+
+    return actions.filter((action) => action.edit.size > 0);
+  }
+
+  /**
+   * Builds the edit fixing the declarations the provided diagnostics were
+   * reported for
+   *
+   * Declarations whose docblock cannot be rendered are left as they are.
+   *
+   * @param   {IScannedDocument}  scanned      The document to fix
+   * @param   {Diagnostic[]}      diagnostics  The problems to fix
+   *
+   * @return  {WorkspaceEdit}                  The edit, empty if no
+   *                                           declaration was found
+   */
+  protected buildEdit(scanned: IScannedDocument, diagnostics: Diagnostic[]): WorkspaceEdit {
+    const { declarations, document, lines, parser } = scanned;
+
+    const edit = new WorkspaceEdit();
+
+    // Declarations with several problems are fixed once
+    const fixed: IDeclaration[] = [];
+
+    for (const diagnostic of diagnostics) {
+      const declaration = this.findDeclaration(declarations, diagnostic);
+
+      if (!declaration || fixed.includes(declaration)) {
+        continue;
+      }
+
+      fixed.push(declaration);
+
+      try {
+        if (declaration.block) {
+          this.syncBlock(edit, parser, document, lines, declaration);
+        } else {
+          new Documenter(parser).addBlock(edit, document, lines, declaration);
+        }
+      } catch (error) {
+        // The other declarations are still fixed
+      }
+    }
+
+    return edit;
+  }
+
+  /**
+   * Finds the declaration a diagnostic was reported for
+   *
+   * @param   {IDeclaration[]}  declarations  The declarations of the document
+   * @param   {Diagnostic}      diagnostic    The diagnostic
+   *
+   * @return  {IDeclaration}                  The declaration on the line of
+   *                                          the diagnostic, or documented by
+   *                                          the docblock containing it
+   */
+  protected findDeclaration(declarations: IDeclaration[], diagnostic: Diagnostic): IDeclaration {
+    const { line } = diagnostic.range.start;
+
+    return declarations.find(({ block, line: start }) => {
+      return start === line || (block && block.start <= line && line <= block.end);
+    });
+  }
+
+  /**
+   * Scans a document for the declarations to fix
+   *
+   * @param   {TextDocument}      document  The document to scan
+   *
+   * @return  {IScannedDocument}            The scanned document
+   */
+  protected scanDocument(document: TextDocument): IScannedDocument {
+    const lines = document.getText().split(/\r?\n/);
+
+    const parser = this.parser || Snippets.getParser(document);
+
+    Snippets.setDocument(parser, document);
+
+    return { declarations: new Scanner(parser).scan(lines), document, lines, parser };
+  }
+
+  /**
+   * Replaces the docblock of a declaration with one synchronized with its
+   * signature
+   *
+   * @param  {WorkspaceEdit}  edit         The edit to add to
+   * @param  {Parser}         parser       The parser of the document
+   * @param  {TextDocument}   document     The document of the declaration
+   * @param  {string[]}       lines        The lines of the document
+   * @param  {IDeclaration}   declaration  The documented declaration
+   */
+  protected syncBlock(
+    edit: WorkspaceEdit,
+    parser: Parser,
+    document: TextDocument,
+    lines: string[],
+    declaration: IDeclaration,
+  ): void {
+    const block = DocBlock.parse(lines, declaration.block, parser.dialect.types);
+
+    const { end, start } = block.range;
+
+    const { eos } = parser.settings;
+
+    const snippet = new Updater(parser).renderUpdatedBlock(block, declaration.symbols);
+
+    // Keep the indentation of the docblock on each of its lines
+    const text = snippet.toPlainText().split(eos).join(Snippets.getEol(document) + block.indent);
+
+    edit.replace(document.uri, new Range(start, block.indent.length, end, lines[end].length), text);
+  }
+}
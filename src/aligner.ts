@@ -0,0 +1,223 @@
+import { DocBlock, ITag } from './docblock';
+import { Parser } from './parser';
+import { Width } from './width';
+
+/**
+ * Describes the layout tags are aligned to
+ */
+export interface IAlignOptions {
+  /**
+   * Whether or not to align the type, name and description columns
+   */
+  align: boolean;
+
+  /**
+   * Minimum number of spaces between columns
+   */
+  columnSpacing: number;
+
+  /**
+   * Whether or not tag descriptions are written on the lines following the tag
+   */
+  drupal: boolean;
+
+  /**
+   * Whether or not tags document types, dialects such as Javadoc begin the
+   * description right after the tag or name
+   */
+  types: boolean;
+}
+
+/**
+ * Describes the widths of the columns of aligned tags
+ */
+interface IColumns {
+  /**
+   * Width of the longest name, 0 if no tag has a name
+   */
+  name: number;
+
+  /**
+   * Width of the longest tag, including the `@` character
+   */
+  tag: number;
+
+  /**
+   * Width of the longest type, 0 if no tag has a type
+   */
+  type: number;
+}
+
+/**
+ * Realigns the columns of the tags of existing docblocks
+ */
+export class Aligner {
+  /**
+   * Tags whose type, name and description are aligned
+   */
+  public static readonly alignedTags = [
+    'exception',
+    'param',
+    'return',
+    'returns',
+    'throws',
+    'var',
+  ];
+
+  /**
+   * The layout tags are aligned to
+   */
+  public options: IAlignOptions;
+
+  /**
+   * Sets up the aligner
+   *
+   * @param  {IAlignOptions}  options  The layout tags are aligned to
+   */
+  public constructor(options: IAlignOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Realigns the tags of a docblock
+   *
+   * Docblocks with text on their opening or closing line are left as they are.
+   *
+   * @param   {string[]}  lines  The lines of the docblock
+   *
+   * @return  {string[]}         The realigned lines
+   */
+  public align(lines: string[]): string[] {
+    const isLineComment = (lines[0] || '').trim().startsWith('///');
+
+    const block = DocBlock.parse(lines, undefined, this.options.types);
+
+    const aligned = block.tags.filter((tag) => Aligner.alignedTags.includes(tag.tag));
+
+    if (!aligned.length || (!isLineComment && !DocBlock.isEnclosed(lines))) {
+      return lines;
+    }
+
+    const content = block.serializeText();
+
+    for (const tag of block.tags) {
+      if (content.length && (tag.spaced || tag === block.tags[0])) {
+        content.push('');
+      }
+
+      content.push(...this.serializeTag(block, tag, aligned));
+    }
+
+    const { close, open, separator } = block.style;
+
+    const result = content.map((line) => (line ? separator + line : separator).trimRight());
+
+    return (open ? [open, ...result, close] : result).map((line) => block.indent + line);
+  }
+
+  /**
+   * Measures the columns of the provided tags
+   *
+   * @param   {ITag[]}    tags    The tags to align
+   * @param   {boolean}   braces  Whether or not types are wrapped in braces
+   *
+   * @return  {IColumns}          The width of each column
+   */
+  protected getColumns(tags: ITag[], braces: boolean): IColumns {
+    const widths = (values: string[]) => Math.max(0, ...values.map((value) => Width.of(value)));
+
+    return {
+      name: widths(tags.filter((tag) => tag.name).map((tag) => tag.name)),
+      // Types line up with those following `@return`, the longest generated tag
+      tag: widths(['@return', ...tags.map((tag) => `@${tag.tag}${tag.direction || ''}`)]),
+      type: widths(tags.filter((tag) => tag.type).map((tag) => Aligner.formatType(tag.type, braces))),
+    };
+  }
+
+  /**
+   * Renders a tag into docblock content lines, aligned to the columns
+   *
+   * @param   {ITag}      tag      The tag to render
+   * @param   {IColumns}  columns  The widths of the columns
+   * @param   {boolean}   braces   Whether or not types are wrapped in braces
+   *
+   * @return  {string[]}           The tag's lines, without the separator
+   */
+  protected renderTag(tag: ITag, columns: IColumns, braces: boolean): string[] {
+    const type = tag.type ? Aligner.formatType(tag.type, braces) : '';
+
+    const [first, ...rest] = tag.description.split('\n');
+
+    const spacing = ' '.repeat(Math.max(this.options.columnSpacing, 1));
+
+    let head = Width.pad(`@${tag.tag}${tag.direction || ''}`, columns.tag) + spacing;
+
+    head += columns.type ? Width.pad(type, columns.type) + spacing : '';
+    head += columns.name ? Width.pad(tag.name || '', columns.name) + spacing : '';
+
+    // Following lines of the description are aligned with its first line
+    const indent = ' '.repeat(Width.of(head));
+
+    return [(head + first).trimRight(), ...rest.map((line) => line ? indent + line : line)];
+  }
+
+  /**
+   * Serializes a tag of a docblock into content lines
+   *
+   * Tags other than the aligned ones keep the style they are written in.
+   *
+   * @param   {DocBlock}  block    The docblock of the tag
+   * @param   {ITag}      tag      The tag to serialize
+   * @param   {ITag[]}    aligned  The tags of the docblock to align
+   *
+   * @return  {string[]}           The tag's lines, without the separator
+   */
+  protected serializeTag(block: DocBlock, tag: ITag, aligned: ITag[]): string[] {
+    if (!aligned.includes(tag)) {
+      return block.serializeTag(tag);
+    }
+
+    // Drupal style descriptions are on the following lines, leaving nothing to align
+    if (this.options.align && !this.options.drupal) {
+      return this.renderTag(tag, this.getColumns(aligned, block.style.braces), block.style.braces);
+    }
+
+    const style = block.style;
+
+    block.style = { ...style, drupal: this.options.drupal };
+
+    const lines = block.serializeTag(tag);
+
+    block.style = style;
+
+    return lines;
+  }
+
+  /**
+   * Creates the aligner of the layout configured for a parser
+   *
+   * @param   {Parser}   parser  The code parser
+   *
+   * @return  {Aligner}          The aligner
+   */
+  public static fromParser(parser: Parser): Aligner {
+    return new Aligner({
+      align: parser.alignTags,
+      columnSpacing: parser.columnCount,
+      drupal: parser.style === 'drupal',
+      types: parser.dialect.types,
+    });
+  }
+
+  /**
+   * Formats the type of a tag
+   *
+   * @param   {string}   type    The type
+   * @param   {boolean}  braces  Whether or not to wrap the type in braces
+   *
+   * @return  {string}           The formatted type
+   */
+  protected static formatType(type: string, braces: boolean): string {
+    return braces ? `{${type}}` : type;
+  }
+}
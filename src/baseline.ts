@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+
+import { IReportFile } from './report';
+
+/**
+ * Describes a known documentation problem
+ *
+ * Lines are left out, so that problems stay known while the code around them
+ * moves.
+ */
+export interface IBaselineEntry {
+  /**
+   * Code identifying the kind of problem
+   */
+  code: string;
+
+  /**
+   * Path of the file, relative to the working directory
+   */
+  file: string;
+
+  /**
+   * Describes the problem
+   */
+  message: string;
+
+  /**
+   * Name of the declaration the problem belongs to
+   */
+  symbol: string;
+}
+
+/**
+ * Records existing documentation problems, so that only new ones are reported
+ */
+export class Baseline {
+  /**
+   * The known problems
+   */
+  public entries: IBaselineEntry[];
+
+  /**
+   * Sets up the baseline
+   *
+   * @param  {IBaselineEntry[]}  entries  The known problems
+   */
+  public constructor(entries: IBaselineEntry[] = []) {
+    this.entries = entries;
+  }
+
+  /**
+   * Leaves out the known problems of the linted files
+   *
+   * A problem occurring more often than recorded is reported, as one of its
+   * occurrences is new.
+   *
+   * @param   {IReportFile[]}  files  The linted files
+   *
+   * @return  {IReportFile[]}         The files with only new problems
+   */
+  public filter(files: IReportFile[]): IReportFile[] {
+    const known: { [key: string]: number } = {};
+
+    for (const entry of this.entries) {
+      const key = Baseline.getKey(entry);
+
+      known[key] = (known[key] || 0) + 1;
+    }
+
+    return files.map(({ file, violations }) => {
+      return {
+        file,
+        violations: violations.filter((violation) => {
+          const key = Baseline.getKey({ ...violation, file });
+
+          return !(known[key]-- > 0);
+        }),
+      };
+    });
+  }
+
+  /**
+   * Converts the baseline to JSON
+   *
+   * @return  {string}  The JSON baseline
+   */
+  public serialize(): string {
+    return JSON.stringify({ entries: this.entries, version: 1 }, null, 2) + '\n';
+  }
+
+  /**
+   * Writes the baseline to a file
+   *
+   * @param  {string}  file  Path of the baseline file
+   */
+  public write(file: string): void {
+    fs.writeFileSync(file, this.serialize());
+  }
+
+  /**
+   * Creates the baseline of every problem of the linted files
+   *
+   * @param   {IReportFile[]}  files  The linted files
+   *
+   * @return  {Baseline}              The baseline
+   */
+  public static create(files: IReportFile[]): Baseline {
+    const entries: IBaselineEntry[] = [];
+
+    for (const { file, violations } of files) {
+      entries.push(...violations.map(({ code, message, symbol }) => ({ code, file, message, symbol })));
+    }
+
+    return new Baseline(entries);
+  }
+
+  /**
+   * Reads a baseline file
+   *
+   * @param   {string}    file  Path of the baseline file
+   *
+   * @return  {Baseline}        The baseline
+   */
+  public static read(file: string): Baseline {
+    const { entries } = JSON.parse(fs.readFileSync(file, 'utf8'));
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`Invalid baseline file: ${file}`);
+    }
+
+    return new Baseline(entries);
+  }
+
+  /**
+   * Identifies a problem independently of its line
+   *
+   * @param   {IBaselineEntry}  entry  The problem
+   *
+   * @return  {string}                 The key of the problem
+   */
+  protected static getKey(entry: IBaselineEntry): string {
+    return [entry.file, entry.code, entry.symbol, entry.message].join('\n');
+  }
+}
@@ -0,0 +1,300 @@
+import { DocBlock, ITag } from './docblock';
+import { Parser } from './parser';
+import { IParam, Symbols, SymbolKind } from './symbols';
+
+/**
+ * Describes a docblock tag that no longer matches the code it documents
+ */
+export interface IProblem {
+  /**
+   * Code identifying the kind of problem, such as `unknown-param`
+   */
+  code: string;
+
+  /**
+   * Describes the problem
+   */
+  message: string;
+
+  /**
+   * The tag the problem was found in, undefined if the tag is missing
+   */
+  tag?: ITag;
+}
+
+/**
+ * Compares existing docblocks with the symbols of the code they document
+ */
+export class Checker {
+  /**
+   * Documented types matching any type of the code
+   */
+  public static readonly anyTypes = [
+    '*',
+    'any',
+    'mixed',
+  ];
+
+  /**
+   * Codes identifying each kind of problem
+   */
+  public static readonly codes = {
+    missingParam: 'missing-param',
+    paramOrder: 'param-order',
+    superfluousReturn: 'superfluous-return',
+    typeMismatch: 'type-mismatch',
+    unknownParam: 'unknown-param',
+  };
+
+  /**
+   * Tags documenting return values
+   */
+  public static readonly returnTags = [
+    'return',
+    'returns',
+  ];
+
+  /**
+   * Language specific code parser
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the checker with the language parser of the document
+   *
+   * @param  {Parser}  parser  Code parser
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Finds the tags of a docblock that no longer match the symbols parsed from
+   * the declaration following it
+   *
+   * Docblocks inheriting their documentation, and declarations other than
+   * functions, are not checked.
+   *
+   * @param   {DocBlock}    block    The existing docblock
+   * @param   {Symbols}     symbols  The symbols parsed from the code
+   *
+   * @return  {IProblem[]}           The problems found, in order of the tags
+   */
+  public check(block: DocBlock, symbols: Symbols): IProblem[] {
+    // Inherited documentation is checked where it is written
+    const inherits = block.getTags('inheritdoc').length > 0 || /\{@inheritdoc\}/i.test(block.summary);
+
+    if (symbols.type !== SymbolKind.Function || inherits) {
+      return [];
+    }
+
+    return [...this.checkParams(block, symbols), ...this.checkReturn(block, symbols)];
+  }
+
+  /**
+   * Compares the parameter tags with the parameters of the signature
+   *
+   * @param   {DocBlock}    block    The existing docblock
+   * @param   {Symbols}     symbols  The symbols parsed from the code
+   *
+   * @return  {IProblem[]}           The problems found
+   */
+  protected checkParams(block: DocBlock, symbols: Symbols): IProblem[] {
+    const params = this.getParams(symbols);
+
+    const problems: IProblem[] = [];
+
+    // The parameters documented by each tag, in order of the tags
+    const documented: { param: IParam, tag: ITag }[] = [];
+
+    for (const tag of block.getTags('param')) {
+      const { name, type } = this.resolveTag(tag, params);
+
+      const param = params.find((item) => Checker.normalizeName(item.name) === name);
+
+      if (param) {
+        documented.push({ param, tag });
+      }
+
+      // Properties of parameters, such as `options.name`, are documented too
+      if (!param && !name.includes('.')) {
+        const message = name
+          ? `@param ${name} does not match a parameter of ${symbols.name}`
+          : `@param does not name a parameter of ${symbols.name}`;
+
+        problems.push({ code: Checker.codes.unknownParam, message, tag });
+      }
+
+      if (param && this.isMismatch(type, param.type, param.inferred)) {
+        const message = `Documented type ${type} of ${name} does not match ${param.type}`;
+
+        problems.push({ code: Checker.codes.typeMismatch, message, tag });
+      }
+    }
+
+    const misplaced = documented.find(({ param }, index) => {
+      return index > 0 && params.indexOf(param) < params.indexOf(documented[index - 1].param);
+    });
+
+    if (misplaced) {
+      const message = `@param tags are not in the order of the parameters of ${symbols.name}`;
+
+      problems.push({ code: Checker.codes.paramOrder, message, tag: misplaced.tag });
+    }
+
+    for (const param of params.filter((item) => !documented.some((entry) => entry.param === item))) {
+      const message = `Missing @param for parameter ${param.name}`;
+
+      problems.push({ code: Checker.codes.missingParam, message });
+    }
+
+    return problems;
+  }
+
+  /**
+   * Compares the return tags with the return type of the signature
+   *
+   * @param   {DocBlock}    block    The existing docblock
+   * @param   {Symbols}     symbols  The symbols parsed from the code
+   *
+   * @return  {IProblem[]}           The problems found
+   */
+  protected checkReturn(block: DocBlock, symbols: Symbols): IProblem[] {
+    const { type } = symbols.return;
+
+    return block.tags.filter((tag) => Checker.returnTags.includes(tag.tag)).map((tag) => {
+      // Return tags are generated by the same rule
+      if (!this.parser.needsReturnTag(symbols, tag.type)) {
+        const message = `@${tag.tag} is superfluous, ${symbols.name} does not return a value`;
+
+        return { code: Checker.codes.superfluousReturn, message, tag };
+      }
+
+      if (this.isMismatch(tag.type, type)) {
+        const message = `Documented return type ${tag.type} does not match ${type}`;
+
+        return { code: Checker.codes.typeMismatch, message, tag };
+      }
+
+      return undefined;
+    }).filter((problem) => problem);
+  }
+
+  /**
+   * Retrieves the parameters of the signature that can be documented
+   *
+   * @param   {Symbols}   symbols  The symbols parsed from the code
+   *
+   * @return  {IParam[]}           The named parameters
+   */
+  protected getParams(symbols: Symbols): IParam[] {
+    const params = symbols.params.filter(({ name }) => typeof name === 'string' && name);
+
+    // Parameter lists such as `(void)` in C declare no parameters
+    return params.length === 1 && params[0].name === 'void' ? [] : params;
+  }
+
+  /**
+   * Checks whether a documented type contradicts the type of the code
+   *
+   * Types missing on either side, the type placeholder, and the types of
+   * dialects not documenting types, such as Javadoc, are not compared.
+   * Neither are types inferred from default values, which may be documented
+   * more precisely, nor structural types. Type arguments left out of the
+   * documented type, such as `Promise` for `Promise<void>`, are ignored.
+   *
+   * @param   {string}   documented  The documented type
+   * @param   {string}   actual      The type parsed from the code
+   * @param   {boolean}  inferred    Whether the type of the code was inferred
+   *
+   * @return  {boolean}              True if the types differ
+   */
+  protected isMismatch(documented: string, actual: string, inferred = false): boolean {
+    const isComparable = this.parser.dialect.types && documented && actual && documented !== this.parser.typePlaceholder;
+
+    if (inferred || !isComparable) {
+      return false;
+    }
+
+    const [expected, found] = [documented, actual].map(Checker.normalizeType);
+
+    if (expected === undefined || found === undefined || Checker.anyTypes.includes(expected)) {
+      return false;
+    }
+
+    return expected !== (expected.includes('<') ? found : found.replace(/<.*>/, ''));
+  }
+
+  /**
+   * Determines the parameter name and type documented by a parameter tag
+   *
+   * Without braces, a lone parameter name can be mistaken for a type. The
+   * type is used as the name when it turns out to be a parameter name.
+   *
+   * @param   {ITag}      tag     The parameter tag
+   * @param   {IParam[]}  params  The parameters of the signature
+   *
+   * @return  {object}            The normalized name and the type
+   */
+  protected resolveTag(tag: ITag, params: IParam[]): { name: string, type: string } {
+    const name = Checker.normalizeName(tag.name);
+    const type = Checker.normalizeName(tag.type);
+
+    const isParam = (value: string) => params.some((param) => Checker.normalizeName(param.name) === value);
+
+    if (!isParam(name) && type && isParam(type)) {
+      return { name: type, type: undefined };
+    }
+
+    return { name, type: tag.type };
+  }
+
+  /**
+   * Normalizes a parameter name, removing reference and rest notations and
+   * the brackets of optional parameters, such as `[name=value]`
+   *
+   * @param   {string}  name  The parameter name
+   *
+   * @return  {string}        The normalized name
+   */
+  public static normalizeName(name: string): string {
+    return (name || '').replace(/^\[(.*)\]$/, '$1').replace(/=.*$/, '').replace(/^[&.]+/, '');
+  }
+
+  /**
+   * Normalizes a type for comparison, such as `?String[]` into
+   * `array<string>|null`
+   *
+   * The `...` noting rest parameters, such as `{...string}`, is not part of
+   * the type. Members of unions are sorted, and names are compared ignoring
+   * case, as JSDoc writes `{Object}` for `object`.
+   *
+   * @param   {string}  type  The type, as documented or written in the code
+   *
+   * @return  {string}        The normalized type, undefined for structural
+   *                          types, such as `{ a: number }`, `[number, number]`
+   *                          or `(a: number) => void`, whose documented forms
+   *                          vary
+   */
+  public static normalizeType(type: string): string {
+    const compact = type.replace(/^\.{3}/, '').trim();
+
+    if (/[{(]|\[(?!\])|=>|\sis\s|^(keyof|typeof)\s/.test(compact)) {
+      return undefined;
+    }
+
+    const nullable = compact.replace(/^\?(.+)$/, '$1|null').replace(/\s/g, '').toLowerCase();
+
+    const members = nullable.includes('<') ? [nullable] : nullable.split('|');
+
+    return members.map((member) => {
+      let item = member;
+
+      while (item.endsWith('[]')) {
+        item = `array<${item.slice(0, -2)}>`;
+      }
+
+      return item;
+    }).sort().join('|');
+  }
+}
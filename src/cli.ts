@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as glob from 'glob';
+import * as path from 'path';
+
+import { Baseline } from './baseline';
+import { IConfiguration } from './configuration';
+import { Generator } from './generator';
+import { ILintOptions, Linter } from './linter';
+import { IReportFile, Report } from './report';
+
+/**
+ * Describes the options of the command line checker
+ */
+export interface ICliOptions extends ILintOptions {
+  /**
+   * Path of the baseline file of known problems
+   */
+  baseline?: string;
+
+  /**
+   * Path of a JSON file of `vs-docblockr` settings
+   */
+  config?: string;
+
+  /**
+   * Glob patterns of files to leave out
+   */
+  exclude: string[];
+
+  /**
+   * The format of the report, one of `Report.formats`
+   */
+  format: string;
+
+  /**
+   * Whether or not to print the usage
+   */
+  help?: boolean;
+
+  /**
+   * Glob patterns of files to check
+   */
+  patterns: string[];
+
+  /**
+   * Whether or not to record every problem found to the baseline file
+   */
+  updateBaseline?: boolean;
+}
+
+/**
+ * Checks the documentation of files from the command line, such as in
+ * continuous integration
+ */
+export class Cli {
+  /**
+   * Exit code when the checker could not run
+   */
+  public static readonly error = 2;
+
+  /**
+   * Exit code when problems were found
+   */
+  public static readonly failure = 1;
+
+  /**
+   * Exit code when no problems were found
+   */
+  public static readonly success = 0;
+
+  /**
+   * Describes the arguments of the command
+   */
+  public static readonly usage = [
+    'Usage: vs-docblockr-check [options] <patterns...>',
+    '',
+    'Reports undocumented declarations and docblocks that no longer match',
+    'their signature in the files matching the glob patterns.',
+    '',
+    'Options:',
+    '  --format <format>    human (default), json or sarif',
+    '  --baseline <file>    Ignore the problems recorded in a baseline file',
+    '  --update-baseline    Record every problem found to the baseline file',
+    '  --exclude <pattern>  Leave out matching files, can be repeated',
+    '  --config <file>      JSON file of vs-docblockr settings',
+    '  --public-only        Only report undocumented public declarations',
+    '  --include-private    Also report undocumented private members',
+    '  --no-stale           Do not report stale docblocks',
+    '  --no-undocumented    Do not report undocumented declarations',
+    '  --help               Show this message',
+  ].join('\n') + '\n';
+
+  /**
+   * Checks the files matching the provided arguments and reports the problems
+   * found
+   *
+   * @param   {string[]}  args  The command line arguments
+   *
+   * @return  {number}          The exit code
+   */
+  public static main(args: string[]): number {
+    let options: ICliOptions;
+
+    try {
+      options = Cli.parseArgs(args);
+    } catch (error) {
+      process.stderr.write(`${error.message}\n\n${Cli.usage}`);
+
+      return Cli.error;
+    }
+
+    if (options.help) {
+      process.stdout.write(Cli.usage);
+
+      return Cli.success;
+    }
+
+    try {
+      return Cli.run(options);
+    } catch (error) {
+      process.stderr.write(`${error.message}\n`);
+
+      return Cli.error;
+    }
+  }
+
+  /**
+   * Parses the command line arguments
+   *
+   * @param   {string[]}     args  The command line arguments
+   *
+   * @return  {ICliOptions}        The options of the checker
+   */
+  public static parseArgs(args: string[]): ICliOptions {
+    const options: ICliOptions = { exclude: [], format: 'human', patterns: [], stale: true, undocumented: true };
+
+    const flags = {
+      '--help': 'help',
+      '--include-private': 'includePrivate',
+      '--public-only': 'publicOnly',
+      '--update-baseline': 'updateBaseline',
+    };
+
+    for (let index = 0; index < args.length; index++) {
+      const arg = args[index];
+
+      if (Object.prototype.hasOwnProperty.call(flags, arg)) {
+        options[flags[arg]] = true;
+      } else if (arg === '--no-stale' || arg === '--no-undocumented') {
+        options[arg.slice(5)] = false;
+      } else if (arg.startsWith('--')) {
+        Cli.parseValue(options, arg, args[++index]);
+      } else {
+        options.patterns.push(arg);
+      }
+    }
+
+    if (!options.help && !options.patterns.length) {
+      throw new Error('No file patterns provided');
+    }
+
+    if (options.updateBaseline && !options.baseline) {
+      throw new Error('--update-baseline requires --baseline');
+    }
+
+    return options;
+  }
+
+  /**
+   * Checks the files matching the provided options
+   *
+   * @param   {ICliOptions}  options  The options of the checker
+   *
+   * @return  {number}                The exit code
+   */
+  public static run(options: ICliOptions): number {
+    const config: IConfiguration = options.config ? JSON.parse(fs.readFileSync(options.config, 'utf8')) : {};
+
+    const files = Cli.findFiles(options.patterns, options.exclude).map((file) => Cli.lintFile(file, config, options));
+
+    if (options.updateBaseline) {
+      const baseline = Baseline.create(files);
+
+      baseline.write(options.baseline);
+
+      process.stdout.write(`Recorded ${baseline.entries.length} problems to ${options.baseline}\n`);
+
+      return Cli.success;
+    }
+
+    const report = new Report(options.baseline ? Baseline.read(options.baseline).filter(files) : files);
+
+    process.stdout.write(report.format(options.format));
+
+    return report.count() ? Cli.failure : Cli.success;
+  }
+
+  /**
+   * Finds the supported files matching glob patterns
+   *
+   * @param   {string[]}  patterns  Glob patterns of files to check
+   * @param   {string[]}  exclude   Glob patterns of files to leave out
+   *
+   * @return  {string[]}            The sorted paths of the files
+   */
+  protected static findFiles(patterns: string[], exclude: string[]): string[] {
+    const files: { [file: string]: boolean } = {};
+
+    const ignore = ['**/node_modules/**', ...exclude];
+
+    for (const pattern of patterns) {
+      for (const file of glob.sync(pattern, { ignore, nodir: true })) {
+        if (Generator.getLanguage(file)) {
+          files[path.normalize(file).split(path.sep).join('/')] = true;
+        }
+      }
+    }
+
+    return Object.keys(files).sort();
+  }
+
+  /**
+   * Finds the documentation problems of a file
+   *
+   * @param   {string}          file     Path of the file
+   * @param   {IConfiguration}  config   The configuration of the parser
+   * @param   {ICliOptions}     options  The options of the checker
+   *
+   * @return  {IReportFile}              The problems found in the file
+   */
+  protected static lintFile(file: string, config: IConfiguration, options: ICliOptions): IReportFile {
+    const parser = Generator.createParser(Generator.getLanguage(file), config);
+
+    const lines = fs.readFileSync(file, 'utf8').split(/\r?\n/);
+
+    return { file, violations: new Linter(parser).lint(lines, options) };
+  }
+
+  /**
+   * Sets the value of an option taking one
+   *
+   * @param  {ICliOptions}  options  The options to set the value of
+   * @param  {string}       arg      The option, such as `--format`
+   * @param  {string}       value    The value following the option
+   */
+  protected static parseValue(options: ICliOptions, arg: string, value: string): void {
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    switch (arg) {
+    case '--baseline':
+    case '--config':
+      options[arg.slice(2)] = value;
+      break;
+    case '--exclude':
+      options.exclude.push(value);
+      break;
+    case '--format':
+      if (Report.formats.indexOf(value) < 0) {
+        throw new Error(`Unknown format: ${value}`);
+      }
+
+      options.format = value;
+      break;
+    default:
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = Cli.main(process.argv.slice(2));
+}
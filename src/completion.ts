@@ -0,0 +1,123 @@
+import { Checker } from './checker';
+import { Dialect } from './dialect';
+import { DocBlock, IBlockRange } from './docblock';
+import { Parser } from './parser';
+import { Snippet } from './snippet';
+import { IParam, Symbols } from './symbols';
+
+/**
+ * Describes a tag offered when typing `@` within a docblock
+ */
+export interface ITagCompletion {
+  /**
+   * Short documentation of the tag
+   */
+  documentation: string;
+
+  /**
+   * Name of the tag, without the `@` character
+   */
+  name: string;
+}
+
+/**
+ * Describes a parameter tag offered for a parameter not documented yet
+ */
+export interface IParamCompletion {
+  /**
+   * Name of the parameter
+   */
+  name: string;
+
+  /**
+   * The parameter tag, aligned with the other parameters of the declaration
+   */
+  snippet: Snippet;
+
+  /**
+   * Type of the parameter, the type placeholder if it has none
+   */
+  type: string;
+}
+
+/**
+ * Determines the tags and parameters completing docblocks being written
+ */
+export class Completion {
+  /**
+   * The parser of the language of the docblocks
+   */
+  public parser: Parser;
+
+  /**
+   * Sets up the completion
+   *
+   * @param  {Parser}  parser  The parser of the language of the docblocks
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Finds the parameters of the declaration below a docblock that it does not
+   * document yet
+   *
+   * @param   {string[]}            lines  The lines of the document
+   * @param   {IBlockRange}         range  The lines of the docblock
+   *
+   * @return  {IParamCompletion[]}         The parameter tags to offer, none if
+   *                                       the declaration could not be parsed
+   */
+  public getParams(lines: string[], range: IBlockRange): IParamCompletion[] {
+    const { tags } = DocBlock.parse(lines.slice(range.start, range.end + 1), undefined, this.parser.dialect.types);
+
+    const documented = tags.filter((tag) => tag.tag === 'param').map((tag) => Checker.normalizeName(tag.name));
+
+    let symbols: Symbols;
+
+    try {
+      symbols = this.parser.getSymbols(this.parser.getSignatureFromLines(lines, range.end + 1));
+    } catch (error) {
+      return [];
+    }
+
+    return symbols.params.filter((param) => !documented.includes(Checker.normalizeName(param.name))).map((param) => {
+      return { name: param.name, snippet: this.renderParam(symbols, param), type: param.type || this.parser.typePlaceholder };
+    });
+  }
+
+  /**
+   * Lists the tags of the dialect of the parser
+   *
+   * @return  {ITagCompletion[]}  The tags to offer
+   */
+  public getTags(): ITagCompletion[] {
+    return this.parser.dialect.tags.map((name) => {
+      return { documentation: Dialect.descriptions[name] || '', name };
+    });
+  }
+
+  /**
+   * Renders the tag of a parameter, beginning at the `@` character
+   *
+   * @param   {Symbols}  symbols  The declaration the parameter belongs to
+   * @param   {IParam}   param    The parameter
+   *
+   * @return  {Snippet}           The parameter tag
+   */
+  protected renderParam(symbols: Symbols, param: IParam): Snippet {
+    const { eos, separator } = this.parser.settings;
+
+    const snippet = new Snippet();
+
+    this.parser.renderParamTag(symbols, param, snippet);
+
+    // The editor indents following lines like the current one, which already
+    // includes the space preceding the separator
+    const [first, ...rest] = snippet.value.substr(Snippet.escape(separator).length).split(eos);
+
+    snippet.value = [first, ...rest.map((line) => line.replace(/^\s+/, ''))].join(eos);
+
+    return snippet;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Describes the configuration of docblock generation, matching the
+ * `vs-docblockr` settings of the extension
+ *
+ * Settings left out keep their default values.
+ */
+export interface IConfiguration {
+  /**
+   * Whether or not to align the parameter, return and variable tags
+   */
+  alignTags?: boolean;
+
+  /**
+   * Minimum number of spaces between columns
+   */
+  columnSpacing?: number;
+
+  /**
+   * The block comment style, such as `drupal`
+   */
+  commentStyle?: string;
+
+  /**
+   * Format of the `date` variable, such as `YYYY-MM-DD`
+   */
+  dateFormat?: string;
+
+  /**
+   * Whether or not to render a return tag
+   */
+  defaultReturnTag?: boolean;
+
+  /**
+   * Whether or not to render the default values of parameters in their tags
+   */
+  defaultValues?: boolean;
+
+  /**
+   * Name of destructured parameters, such as `options`
+   */
+  destructuredName?: string;
+
+  /**
+   * Documentation dialects keyed by language ID
+   */
+  dialects?: { [languageId: string]: string };
+
+  /**
+   * Extra tags keyed by symbol kind, optionally prefixed by a language ID
+   */
+  extraTags?: { [kind: string]: string[] };
+
+  /**
+   * Whether or not to rewrite TypeScript types into their JSDoc forms
+   */
+  jsdocTypes?: boolean;
+
+  /**
+   * Language of the generated placeholders, such as `en`
+   */
+  locale?: string;
+
+  /**
+   * Whether or not to add new lines between tags
+   */
+  newLinesBetweenTags?: boolean;
+
+  /**
+   * Closing of SCSS docblocks
+   */
+  scssCommentClose?: string;
+
+  /**
+   * Opening of SCSS docblocks
+   */
+  scssCommentOpen?: string;
+
+  /**
+   * The characters beginning each line of SCSS docblocks
+   */
+  scssCommentSeparator?: string;
+
+  /**
+   * Docblock layouts keyed by symbol kind, optionally prefixed by a language ID
+   */
+  templates?: { [kind: string]: string | string[] };
+}
@@ -0,0 +1,199 @@
+import {
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticSeverity,
+  ExtensionContext,
+  languages,
+  Range,
+  TextDocument,
+  workspace,
+} from 'vscode';
+
+import { IViolation, Linter } from './linter';
+import { Snippets } from './snippets';
+
+/**
+ * Reports declarations of open documents that lack docblocks, and docblocks
+ * that no longer match their declarations
+ */
+export class Diagnostics {
+  /**
+   * Code identifying undocumented declaration diagnostics, stale docblocks are
+   * identified by the codes of `Checker`
+   */
+  public static readonly code = Linter.undocumented;
+
+  /**
+   * Milliseconds to wait for typing to pause before scanning a document
+   */
+  public static delay = 500;
+
+  /**
+   * Diagnostic severities by their setting value
+   */
+  public static readonly severities: { [name: string]: DiagnosticSeverity } = {
+    error: DiagnosticSeverity.Error,
+    hint: DiagnosticSeverity.Hint,
+    information: DiagnosticSeverity.Information,
+    warning: DiagnosticSeverity.Warning,
+  };
+
+  /**
+   * The collection diagnostics are reported to
+   */
+  public collection: DiagnosticCollection;
+
+  /**
+   * Pending scans keyed by document URI
+   */
+  protected timers: { [uri: string]: ReturnType<typeof setTimeout> } = {};
+
+  /**
+   * Sets up the diagnostics reported to the provided collection
+   *
+   * @param  {DiagnosticCollection}  collection  The diagnostic collection
+   */
+  public constructor(collection: DiagnosticCollection) {
+    this.collection = collection;
+  }
+
+  /**
+   * Removes the diagnostics of a document
+   *
+   * @param  {TextDocument}  document  The document to clear
+   */
+  public clear(document: TextDocument): void {
+    const uri = document.uri.toString();
+
+    clearTimeout(this.timers[uri]);
+
+    delete this.timers[uri];
+
+    this.collection.delete(document.uri);
+  }
+
+  /**
+   * Scans a document for declarations lacking docblocks and docblocks that no
+   * longer match their declarations
+   *
+   * @param   {TextDocument}  document  The document to scan
+   *
+   * @return  {Diagnostic[]}            The problems found
+   */
+  public getDiagnostics(document: TextDocument): Diagnostic[] {
+    const config = workspace.getConfiguration('vs-docblockr', document);
+
+    const undocumented = Diagnostics.severities[config.get<string>('undocumentedSeverity')];
+    const stale = Diagnostics.severities[config.get<string>('staleSeverity')];
+
+    const isSupported = Object.prototype.hasOwnProperty.call(Snippets.languageList, document.languageId);
+
+    if ((undocumented === undefined && stale === undefined) || !isSupported) {
+      return [];
+    }
+
+    const linter = new Linter(Snippets.getParser(document));
+
+    const violations = linter.lint(document.getText().split(/\r?\n/), {
+      includePrivate: config.get<boolean>('undocumentedPrivate'),
+      publicOnly: config.get<boolean>('undocumentedPublicOnly'),
+      stale: stale !== undefined,
+      undocumented: undocumented !== undefined && !this.isExcluded(document, config.get('undocumentedExclude')),
+    });
+
+    return violations.map((violation) => {
+      return this.createDiagnostic(violation, violation.code === Diagnostics.code ? undocumented : stale);
+    });
+  }
+
+  /**
+   * Reports the documentation problems of a document
+   *
+   * @param  {TextDocument}  document  The document to scan
+   */
+  public refresh(document: TextDocument): void {
+    this.collection.set(document.uri, this.getDiagnostics(document));
+  }
+
+  /**
+   * Reports the documentation problems of every open document
+   */
+  public refreshAll(): void {
+    workspace.textDocuments.forEach((document) => this.refresh(document));
+  }
+
+  /**
+   * Scans a document once typing pauses
+   *
+   * @param  {TextDocument}  document  The document to scan
+   */
+  public schedule(document: TextDocument): void {
+    const uri = document.uri.toString();
+
+    clearTimeout(this.timers[uri]);
+
+    this.timers[uri] = setTimeout(() => {
+      delete this.timers[uri];
+
+      this.refresh(document);
+    }, Diagnostics.delay);
+  }
+
+  /**
+   * Reports documentation problems while documents are open
+   *
+   * @param   {ExtensionContext}  context  The extension context
+   *
+   * @return  {Diagnostics}                The registered diagnostics
+   */
+  public static register(context: ExtensionContext): Diagnostics {
+    const diagnostics = new Diagnostics(languages.createDiagnosticCollection('vs-docblockr'));
+
+    context.subscriptions.push(
+      diagnostics.collection,
+      workspace.onDidOpenTextDocument((document) => diagnostics.refresh(document)),
+      workspace.onDidChangeTextDocument(({ document }) => diagnostics.schedule(document)),
+      workspace.onDidCloseTextDocument((document) => diagnostics.clear(document)),
+      workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('vs-docblockr')) {
+          diagnostics.refreshAll();
+        }
+      }),
+    );
+
+    diagnostics.refreshAll();
+
+    return diagnostics;
+  }
+
+  /**
+   * Creates the diagnostic of a documentation problem
+   *
+   * @param   {IViolation}          violation  The problem found
+   * @param   {DiagnosticSeverity}  severity   The severity to report
+   *
+   * @return  {Diagnostic}                     The diagnostic
+   */
+  protected createDiagnostic(violation: IViolation, severity: DiagnosticSeverity): Diagnostic {
+    const { end, line, message, start } = violation;
+
+    const diagnostic = new Diagnostic(new Range(line, start, line, end), message, severity);
+
+    diagnostic.code = violation.code;
+    diagnostic.source = 'vs-docblockr';
+
+    return diagnostic;
+  }
+
+  /**
+   * Checks whether a document matches any of the excluded patterns
+   *
+   * @param   {TextDocument}  document  The document to check
+   * @param   {string[]}      patterns  Glob patterns of excluded files
+   *
+   * @return  {boolean}                 True if the document is excluded
+   */
+  protected isExcluded(document: TextDocument, patterns: string[] = []): boolean {
+    return patterns.some((pattern) => languages.match({ pattern }, document) > 0);
+  }
+}
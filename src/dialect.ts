@@ -0,0 +1,470 @@
+/**
+ * Describes the tags a documentation tool expects
+ */
+export interface IDialect {
+  /**
+   * Whether types are wrapped in braces, such as `{string}`
+   */
+  braces: boolean;
+
+  /**
+   * How parameters passed by reference are noted: `name` prefixes their name
+   * with `&`, `direction` tags them `[in,out]`, empty leaves them as they are
+   */
+  byRef: string;
+
+  /**
+   * Whether parameters can be documented along with their default value, such
+   * as `[limit=10]`
+   */
+  defaults: boolean;
+
+  /**
+   * Template lines rendered when no symbol was parsed, defaults to the header
+   */
+  emptyHeader?: string[];
+
+  /**
+   * Template lines of the comment at the top of a file
+   */
+  fileHeader: string[];
+
+  /**
+   * Template lines rendered after the tags
+   */
+  footer: string[];
+
+  /**
+   * Template lines describing the symbol, rendered before the tags
+   */
+  header: string[];
+
+  /**
+   * Whether optional parameters are named within brackets, such as `[x]`
+   */
+  optional: boolean;
+
+  /**
+   * How rest parameters are noted: `name` prefixes their name with `...`,
+   * `type` prefixes their type, such as `{...string}`, empty leaves them as
+   * they are
+   */
+  rest: string;
+
+  /**
+   * Name of the tag documenting return values, such as `returns`
+   */
+  returnTag: string;
+
+  /**
+   * Whether the return tag is followed by a `@retval` tag
+   */
+  retval: boolean;
+
+  /**
+   * Names of the tags understood by the documentation tool, offered when
+   * typing `@` within a docblock
+   */
+  tags: string[];
+
+  /**
+   * Whether parameter, return and variable tags document types
+   */
+  types: boolean;
+
+  /**
+   * The tag documenting variables, such as `@var`. Variables are not tagged
+   * when empty
+   */
+  varTag: string;
+}
+
+/**
+ * Tag conventions of a documentation tool, such as JSDoc or Doxygen
+ */
+export class Dialect implements IDialect {
+  /**
+   * The dialect used when an unknown dialect was requested
+   */
+  public static defaultDialect = 'doxygen';
+
+  /**
+   * Short documentation of the tags of every dialect, keyed by tag name
+   */
+  public static descriptions: { [tag: string]: string } = {
+    access: 'Visibility of the item, `public` or `private`',
+    alias: 'Other item the documented item is an alias of',
+    alpha: 'Marks an API as early and subject to change',
+    api: 'Marks the element as part of the public API',
+    async: 'Marks the function as asynchronous',
+    author: 'Author of the item',
+    beta: 'Marks an API as experimental',
+    brief: 'Short summary of the item',
+    bug: 'Describes a known bug',
+    callback: 'Documents a callback function',
+    class: 'Marks the function as a class constructor',
+    content: 'Describes the content passed to a mixin with `@content`',
+    defaultValue: 'Default value of a property',
+    deprecated: 'Marks the item as no longer to be used',
+    details: 'Detailed description of the item',
+    eventProperty: 'Marks a property as returning an event object',
+    example: 'Example of how to use the item',
+    exception: 'Exception the method may throw',
+    file: 'Documents the file',
+    group: 'Group the item belongs to',
+    inheritDoc: 'Copies the documentation of another item',
+    inheritdoc: 'Inherits the documentation of the parent item',
+    internal: 'Marks the item as not part of the public API',
+    link: 'Link to related documentation',
+    method: 'Documents a magic method',
+    module: 'Documents the module of the file',
+    note: 'Note about the item',
+    output: 'Describes the output of a mixin',
+    override: 'Marks the item as overriding its parent',
+    package: 'Package the file belongs to',
+    packageDocumentation: 'Marks the comment as documenting the package',
+    param: 'Documents a parameter',
+    post: 'Postcondition of the function',
+    pre: 'Precondition of the function',
+    private: 'Marks the item as private',
+    privateRemarks: 'Remarks left out of the public documentation',
+    property: 'Documents a property',
+    protected: 'Marks the item as protected',
+    public: 'Marks the item as public',
+    readonly: 'Marks the item as read-only',
+    remarks: 'Detailed description of the item',
+    require: 'Documents a dependency of the item',
+    return: 'Documents the return value',
+    returns: 'Documents the return value',
+    retval: 'Documents a specific return value',
+    sealed: 'Marks a class or member as not to be extended',
+    see: 'Reference to related items',
+    serial: 'Documents a serializable field',
+    since: 'Version the item was added in',
+    throw: 'Error the item may throw',
+    throws: 'Exception the item may throw',
+    todo: 'Work left to do on the item',
+    tparam: 'Documents a template parameter',
+    type: 'Type of the item',
+    typedef: 'Documents a custom type',
+    typeParam: 'Documents a type parameter',
+    uses: 'Item used by the documented item',
+    var: 'Type of the variable',
+    version: 'Version of the item',
+    virtual: 'Marks a member as meant to be overridden',
+    warning: 'Warning about the item',
+  };
+
+  /**
+   * Built-in dialects
+   */
+  public static dialects: { [name: string]: IDialect } = {
+    doxygen: {
+      braces: false,
+      byRef: 'direction',
+      defaults: false,
+      fileHeader: ['@file ${:${fileName}}', '${:@brief ${title}}', '', '${extraTags}'],
+      footer: ['${:@todo}'],
+      header: ['${:@brief ${summary}}', '${:@details ${description}}'],
+      optional: false,
+      rest: 'name',
+      returnTag: 'return',
+      retval: true,
+      tags: [
+        'author',
+        'brief',
+        'bug',
+        'deprecated',
+        'details',
+        'example',
+        'file',
+        'note',
+        'param',
+        'post',
+        'pre',
+        'return',
+        'retval',
+        'see',
+        'since',
+        'throws',
+        'todo',
+        'tparam',
+        'warning',
+      ],
+      types: true,
+      varTag: '< @enum',
+    },
+    javadoc: {
+      braces: false,
+      byRef: '',
+      defaults: false,
+      fileHeader: ['${:${title}}', '', '${extraTags}'],
+      footer: [],
+      header: ['${:${summary}}'],
+      optional: false,
+      rest: '',
+      returnTag: 'return',
+      retval: false,
+      tags: [
+        'author',
+        'deprecated',
+        'exception',
+        'param',
+        'return',
+        'see',
+        'serial',
+        'since',
+        'throws',
+        'version',
+      ],
+      types: false,
+      varTag: '',
+    },
+    jsdoc: {
+      braces: true,
+      byRef: '',
+      defaults: true,
+      fileHeader: ['${:${title}}', '', '@module ${:${baseName}}', '${extraTags}'],
+      footer: [],
+      header: ['${:${summary}}'],
+      optional: true,
+      rest: 'type',
+      returnTag: 'return',
+      retval: false,
+      tags: [
+        'async',
+        'author',
+        'callback',
+        'class',
+        'deprecated',
+        'example',
+        'inheritdoc',
+        'module',
+        'override',
+        'param',
+        'private',
+        'property',
+        'protected',
+        'public',
+        'readonly',
+        'return',
+        'see',
+        'since',
+        'throws',
+        'todo',
+        'type',
+        'typedef',
+      ],
+      types: true,
+      varTag: '@type',
+    },
+    phpdoc: {
+      braces: false,
+      byRef: 'name',
+      defaults: false,
+      fileHeader: ['${:${title}}', '', '@package ${:${baseName}}', '${extraTags}'],
+      footer: [],
+      header: ['${:${summary}}'],
+      optional: false,
+      rest: 'name',
+      returnTag: 'return',
+      retval: false,
+      tags: [
+        'api',
+        'author',
+        'deprecated',
+        'example',
+        'inheritdoc',
+        'internal',
+        'link',
+        'method',
+        'package',
+        'param',
+        'property',
+        'return',
+        'see',
+        'since',
+        'throws',
+        'todo',
+        'uses',
+        'var',
+        'version',
+      ],
+      types: true,
+      varTag: '@var',
+    },
+    sassdoc: {
+      braces: true,
+      byRef: '',
+      defaults: false,
+      emptyHeader: ['${:${title}}', '${:@group ${fileName}}'],
+      fileHeader: ['${:${title}}', '', '@group ${:${baseName}}', '${extraTags}'],
+      footer: ['${:@todo}'],
+      header: ['${:${summary}}', '${:@group ${fileName}}'],
+      optional: false,
+      rest: '',
+      returnTag: 'return',
+      retval: false,
+      tags: [
+        'access',
+        'alias',
+        'author',
+        'content',
+        'deprecated',
+        'example',
+        'group',
+        'link',
+        'output',
+        'param',
+        'property',
+        'require',
+        'return',
+        'see',
+        'since',
+        'throw',
+        'todo',
+        'type',
+      ],
+      types: true,
+      varTag: '@type',
+    },
+    tsdoc: {
+      braces: false,
+      byRef: '',
+      defaults: false,
+      fileHeader: ['${:${title}}', '', '@packageDocumentation', '${extraTags}'],
+      footer: [],
+      header: ['${:${summary}}'],
+      optional: false,
+      rest: '',
+      returnTag: 'returns',
+      retval: false,
+      tags: [
+        'alpha',
+        'beta',
+        'defaultValue',
+        'deprecated',
+        'eventProperty',
+        'example',
+        'inheritDoc',
+        'internal',
+        'override',
+        'packageDocumentation',
+        'param',
+        'privateRemarks',
+        'public',
+        'readonly',
+        'remarks',
+        'returns',
+        'sealed',
+        'see',
+        'throws',
+        'typeParam',
+        'virtual',
+      ],
+      types: false,
+      varTag: '',
+    },
+  };
+
+  /**
+   * @inheritdoc
+   */
+  public braces: boolean;
+
+  /**
+   * @inheritdoc
+   */
+  public byRef: string;
+
+  /**
+   * @inheritdoc
+   */
+  public defaults: boolean;
+
+  /**
+   * @inheritdoc
+   */
+  public emptyHeader: string[];
+
+  /**
+   * @inheritdoc
+   */
+  public fileHeader: string[];
+
+  /**
+   * @inheritdoc
+   */
+  public footer: string[];
+
+  /**
+   * @inheritdoc
+   */
+  public header: string[];
+
+  /**
+   * The name of the dialect
+   */
+  public name: string;
+
+  /**
+   * @inheritdoc
+   */
+  public optional: boolean;
+
+  /**
+   * @inheritdoc
+   */
+  public rest: string;
+
+  /**
+   * @inheritdoc
+   */
+  public returnTag: string;
+
+  /**
+   * @inheritdoc
+   */
+  public retval: boolean;
+
+  /**
+   * @inheritdoc
+   */
+  public tags: string[];
+
+  /**
+   * @inheritdoc
+   */
+  public types: boolean;
+
+  /**
+   * @inheritdoc
+   */
+  public varTag: string;
+
+  /**
+   * Sets up the tag conventions of the provided dialect
+   *
+   * @param  {string}  name  A dialect name such as `jsdoc`
+   */
+  constructor(name: string) {
+    this.name = Dialect.resolve(name);
+
+    const dialect = Dialect.dialects[this.name];
+
+    Object.assign(this, dialect, { emptyHeader: dialect.emptyHeader || dialect.header });
+  }
+
+  /**
+   * Determines which built-in dialect matches the provided name
+   *
+   * @param   {string}  name  A dialect name such as `JSDoc`
+   *
+   * @return  {string}        The built-in dialect
+   */
+  public static resolve(name: string): string {
+    const normalized = (name || '').toLowerCase();
+
+    return Object.prototype.hasOwnProperty.call(Dialect.dialects, normalized) ? normalized : Dialect.defaultDialect;
+  }
+}
@@ -0,0 +1,683 @@
+/**
+ * Describes the lines a docblock occupies in a document
+ */
+export interface IBlockRange {
+  /**
+   * The line containing the closing of the docblock
+   */
+  end: number;
+
+  /**
+   * The line containing the opening of the docblock
+   */
+  start: number;
+}
+
+/**
+ * Describes how a docblock is written
+ */
+export interface ICommentStyle {
+  /**
+   * Whether or not tag types are wrapped in braces
+   */
+  braces: boolean;
+
+  /**
+   * The closing of the docblock, empty for line comments
+   */
+  close: string;
+
+  /**
+   * Whether or not tag descriptions are written on the lines following the tag
+   */
+  drupal: boolean;
+
+  /**
+   * The opening of the docblock, empty for line comments
+   */
+  open: string;
+
+  /**
+   * The characters beginning each line of the docblock
+   */
+  separator: string;
+}
+
+/**
+ * Describes a tag of a docblock
+ */
+export interface ITag {
+  /**
+   * The tag's description, lines are separated by new line characters
+   */
+  description: string;
+
+  /**
+   * The direction following the tag name, such as `[in,out]` in Doxygen
+   */
+  direction?: string;
+
+  /**
+   * The name the tag documents, such as a parameter name
+   */
+  name?: string;
+
+  /**
+   * Whether or not a blank line precedes the tag
+   */
+  spaced?: boolean;
+
+  /**
+   * The tag name, without the `@` character
+   */
+  tag: string;
+
+  /**
+   * The type the tag documents
+   */
+  type?: string;
+}
+
+/**
+ * Represents an existing docblock
+ */
+export class DocBlock {
+  /**
+   * Tags whose descriptions tell the Drupal style apart, when they begin on
+   * the following line
+   */
+  public static drupalTags = [
+    'param',
+    'return',
+    'returns',
+    'throws',
+  ];
+
+  /**
+   * Tags followed by the name of what they document
+   */
+  public static namedTags = [
+    'arg',
+    'argument',
+    'param',
+    'prop',
+    'property',
+  ];
+
+  /**
+   * Tags that can be followed by a type
+   */
+  public static typedTags = [
+    'arg',
+    'argument',
+    'enum',
+    'exception',
+    'param',
+    'prop',
+    'property',
+    'return',
+    'returns',
+    'throws',
+    'type',
+    'var',
+  ];
+
+  /**
+   * Tags whose lines are kept as written, such as indented code
+   */
+  public static verbatimTags = [
+    'code',
+    'example',
+  ];
+
+  /**
+   * The text following the summary
+   */
+  public description = '';
+
+  /**
+   * The indentation preceding each line of the docblock
+   */
+  public indent = '';
+
+  /**
+   * The lines the docblock occupies in its document
+   */
+  public range: IBlockRange = { end: 0, start: 0 };
+
+  /**
+   * How the docblock is written
+   */
+  public style: ICommentStyle = {
+    braces: true,
+    close: ' */',
+    drupal: false,
+    open: '/**',
+    separator: ' * ',
+  };
+
+  /**
+   * The first paragraph of the docblock
+   */
+  public summary = '';
+
+  /**
+   * The docblock tags in order of appearance
+   */
+  public tags: ITag[] = [];
+
+  /**
+   * Whether or not tags document types, dialects such as Javadoc begin the
+   * description right after the tag or name
+   */
+  public types = true;
+
+  /**
+   * Locates the line of the document a tag of the docblock begins on
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {ITag}      tag    A tag of the docblock
+   *
+   * @return  {number}           The line of the tag, the opening line of the
+   *                             docblock if the tag was not found
+   */
+  public getTagLine(lines: string[], tag: ITag): number {
+    const { end, start } = this.range;
+
+    // Tags of the same name are found by their order of appearance
+    const occurrence = this.getTags(tag.tag).indexOf(tag);
+
+    const expression = new RegExp(`^\\s*(/\\*[*!]?|\\*|///)?\\s*<?\\s*@${tag.tag}\\b`);
+
+    const matches = lines.slice(start, end + 1)
+      .map((text, index) => expression.test(text) ? start + index : -1)
+      .filter((line) => line >= 0);
+
+    return occurrence < 0 || occurrence >= matches.length ? start : matches[occurrence];
+  }
+
+  /**
+   * Retrieves all tags with the provided name
+   *
+   * @param   {string}  name  The tag name, without the `@` character
+   *
+   * @return  {ITag[]}        The matching tags
+   */
+  public getTags(name: string): ITag[] {
+    return this.tags.filter((tag) => tag.tag === name);
+  }
+
+  /**
+   * Serializes the docblock back into lines of code
+   *
+   * @return  {string[]}  The docblock lines, without indentation
+   */
+  public serialize(): string[] {
+    const { close, open, separator } = this.style;
+
+    const content = this.serializeText();
+
+    for (const tag of this.tags) {
+      if (content.length && (tag.spaced || tag === this.tags[0])) {
+        content.push('');
+      }
+
+      content.push(...this.serializeTag(tag));
+    }
+
+    const lines = content.map((line) => line ? separator + line : separator.trimRight());
+
+    // Line comments have neither opening nor closing
+    return open ? [open, ...lines, close] : lines;
+  }
+
+  /**
+   * Serializes a tag into docblock content lines
+   *
+   * @param   {ITag}      tag  The tag to serialize
+   *
+   * @return  {string[]}       The tag's lines, without the separator
+   */
+  public serializeTag(tag: ITag): string[] {
+    let head = `@${tag.tag}${tag.direction || ''}`;
+
+    if (tag.type) {
+      head += this.style.braces ? ` {${tag.type}}` : ` ${tag.type}`;
+    }
+
+    if (tag.name) {
+      head += ` ${tag.name}`;
+    }
+
+    const description = tag.description ? tag.description.split('\n') : [];
+
+    if (this.style.drupal && !DocBlock.verbatimTags.includes(tag.tag)) {
+      return [head, ...description.map((line) => line ? `  ${line}` : line)];
+    }
+
+    const [first, ...rest] = description;
+
+    return [first ? `${head} ${first}` : head, ...rest];
+  }
+
+  /**
+   * Serializes the summary and description into docblock content lines
+   *
+   * @return  {string[]}  The text lines, without the separator
+   */
+  public serializeText(): string[] {
+    const lines = this.summary ? this.summary.split('\n') : [];
+
+    if (this.description) {
+      if (lines.length) {
+        lines.push('');
+      }
+
+      lines.push(...this.description.split('\n'));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Locates the docblock at or directly above the provided line
+   *
+   * @param   {string[]}     lines  The lines of the document
+   * @param   {number}       line   The line to start searching from
+   * @param   {string}       open   The opening of block comments
+   *
+   * @return  {IBlockRange}         The lines of the docblock, undefined if no
+   *                                docblock was found
+   */
+  public static find(lines: string[], line: number, open = '/**'): IBlockRange {
+    const text = (index: number) => (lines[index] || '').trim();
+
+    // Line comments are found by their consecutive lines
+    const current = text(line).startsWith('///') ? line : line - 1;
+
+    if (text(current).startsWith('///')) {
+      let start = current;
+      let end = current;
+
+      while (text(start - 1).startsWith('///')) {
+        start--;
+      }
+
+      while (text(end + 1).startsWith('///')) {
+        end++;
+      }
+
+      return { end, start };
+    }
+
+    const start = DocBlock.findStart(lines, line, open);
+
+    if (start < 0) {
+      return undefined;
+    }
+
+    // Walk down to the closing of the docblock
+    let end = start;
+
+    while (end < lines.length && !text(end).endsWith('*/')) {
+      end++;
+    }
+
+    return end < lines.length ? { end, start } : undefined;
+  }
+
+  /**
+   * Checks whether the opening and closing of a docblock are on lines of their
+   * own
+   *
+   * @param   {string[]}  lines  The lines of the docblock
+   *
+   * @return  {boolean}          True if no text shares the opening or closing
+   *                             line
+   */
+  public static isEnclosed(lines: string[]): boolean {
+    return lines.length > 1 && /^\/\*[*!]?$/.test(lines[0].trim()) && lines[lines.length - 1].trim() === '*/';
+  }
+
+  /**
+   * Checks whether the provided docblock content begins a tag
+   *
+   * @param   {string}   line  The docblock content
+   *
+   * @return  {boolean}        True if the line begins a tag
+   */
+  public static isTag(line: string): boolean {
+    // Doxygen allows documenting the preceding member with `<`
+    return /^<?\s*@\w+/.test(line.trim());
+  }
+
+  /**
+   * Parses an existing docblock
+   *
+   * @param   {string[]}     lines  The lines of the document
+   * @param   {IBlockRange}  range  The lines of the docblock, defaults to all
+   *                                lines provided
+   * @param   {boolean}      types  Whether or not tags document types
+   *
+   * @return  {DocBlock}            The parsed docblock
+   */
+  public static parse(lines: string[], range?: IBlockRange, types = true): DocBlock {
+    const block = new DocBlock();
+
+    block.range = range || { end: lines.length - 1, start: 0 };
+    block.types = types;
+
+    const source = lines.slice(block.range.start, block.range.end + 1);
+
+    block.indent = /^\s*/.exec(source[0] || '')[0];
+    block.style = DocBlock.getStyle(source);
+
+    const content = DocBlock.getContent(source, block.style);
+
+    // Everything preceding the first tag describes the symbol
+    let index = content.findIndex((line) => DocBlock.isTag(line));
+
+    if (index < 0) {
+      index = content.length;
+    }
+
+    const text = DocBlock.trimLines(content.slice(0, index));
+    const paragraph = text.indexOf('');
+
+    block.summary = (paragraph < 0 ? text : text.slice(0, paragraph)).join('\n');
+    block.description = paragraph < 0 ? '' : DocBlock.trimLines(text.slice(paragraph)).join('\n');
+
+    block.parseTags(content.slice(index));
+
+    return block;
+  }
+
+  /**
+   * Parses the description of a tag, continued on the lines following it
+   *
+   * @param   {ITag}      tag   The tag, with the description on its line
+   * @param   {string[]}  rest  The lines following the tag
+   *
+   * @return  {string[]}        The lines of the description
+   */
+  protected parseDescription(tag: ITag, rest: string[]): string[] {
+    // Verbatim content beginning on the following line keeps its indentation
+    if (!tag.description && DocBlock.verbatimTags.includes(tag.tag)) {
+      const lines = DocBlock.trimLines(rest);
+
+      return lines.length ? ['', ...lines] : [];
+    }
+
+    return DocBlock.trimLines(DocBlock.dedent([tag.description, ...rest]));
+  }
+
+  /**
+   * Parses the type, name and description of a tag line
+   *
+   * @param   {string}  line  The tag line
+   *
+   * @return  {ITag}          The parsed tag
+   */
+  protected parseTag(line: string): ITag {
+    const [, name, direction, content] = /^<?\s*@(\w+)(\[[\w\s,]*\])?\s*([\s\S]*)$/.exec(line);
+
+    const tag: ITag = { description: '', tag: name };
+
+    if (direction) {
+      tag.direction = direction;
+    }
+
+    let rest = content;
+
+    if (DocBlock.typedTags.includes(name)) {
+      [tag.type, rest] = this.splitType(name, rest);
+    }
+
+    if (DocBlock.namedTags.includes(name)) {
+      const [, value, remainder] = /^(\S*)\s*([\s\S]*)$/.exec(rest);
+
+      tag.name = value || undefined;
+      rest = remainder;
+    }
+
+    tag.description = rest;
+
+    return tag;
+  }
+
+  /**
+   * Parses the tag lines of the docblock
+   *
+   * @param  {string[]}  content  The docblock content beginning with a tag
+   */
+  protected parseTags(content: string[]): void {
+    const sources: string[][] = [];
+
+    for (const line of content) {
+      if (DocBlock.isTag(line)) {
+        sources.push([line]);
+      } else {
+        sources[sources.length - 1].push(line);
+      }
+    }
+
+    // Braces are used by the whole docblock if any tag uses them
+    this.style.braces = sources.some(([first]) => /^<?\s*@\w+\s+\{/.test(first.trim()));
+
+    for (const [first, ...rest] of sources) {
+      const previous = this.tags.length ? sources[this.tags.length - 1] : [];
+
+      const tag = this.parseTag(first.trim());
+
+      // Descriptions beginning on the following line are indented
+      if (DocBlock.drupalTags.includes(tag.tag) && !tag.description && /^\s+\S/.test(rest[0] || '')) {
+        this.style.drupal = true;
+      }
+
+      tag.description = this.parseDescription(tag, rest).join('\n');
+      tag.spaced = previous.length > 0 && previous[previous.length - 1] === '';
+
+      this.tags.push(tag);
+    }
+  }
+
+  /**
+   * Splits the type from the start of a tag's content
+   *
+   * @param   {string}    name     The tag name
+   * @param   {string}    content  The content following the tag
+   *
+   * @return  {string[]}           The type and the remaining content
+   */
+  protected splitType(name: string, content: string): string[] {
+    // Descriptions of typeless dialects may begin with any word
+    if (!this.types) {
+      return [undefined, content];
+    }
+
+    if (content.startsWith('{')) {
+      return DocBlock.splitBraces(content);
+    }
+
+    const [, first, rest] = /^(\S*)\s*([\s\S]*)$/.exec(content);
+
+    // A lone word following a named tag is the name, variable names are never
+    // types either
+    const isName = DocBlock.namedTags.includes(name) && (!rest || /^(\$|&|\.\.\.)/.test(first));
+
+    if (this.style.braces || !first || isName) {
+      return [undefined, content];
+    }
+
+    return [first, rest];
+  }
+
+  /**
+   * Removes the shared indentation of the lines following the first one
+   *
+   * @param   {string[]}  lines  The lines to dedent
+   *
+   * @return  {string[]}         The dedented lines
+   */
+  protected static dedent(lines: string[]): string[] {
+    const [first, ...rest] = lines;
+
+    const indents = rest.filter((line) => line.trim()).map((line) => /^\s*/.exec(line)[0].length);
+    const indent = indents.length ? Math.min(...indents) : 0;
+
+    return [first, ...rest.map((line) => line.substr(indent))];
+  }
+
+  /**
+   * Locates the opening line of the docblock at or directly above the
+   * provided line
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {number}    line   The line to start searching from
+   * @param   {string}    open   The opening of block comments
+   *
+   * @return  {number}           The opening line, -1 if no docblock was found
+   */
+  protected static findStart(lines: string[], line: number, open: string): number {
+    const text = (index: number) => (lines[index] || '').trim();
+
+    let start = line;
+
+    // When the cursor is on the code, the docblock should end directly above
+    if (!text(line).startsWith(open) && !text(line).startsWith('*')) {
+      if (!text(line - 1).endsWith('*/')) {
+        return -1;
+      }
+
+      start = line - 1;
+    }
+
+    // Walk up to the opening of the docblock
+    while (start >= 0 && !text(start).startsWith(open)) {
+      // Another comment's closing means the cursor is not inside a docblock
+      if (start < line - 1 && text(start).endsWith('*/')) {
+        return -1;
+      }
+
+      start--;
+    }
+
+    return start;
+  }
+
+  /**
+   * Retrieves the content of each docblock line without the comment opening,
+   * closing or separator
+   *
+   * @param   {string[]}       source  The lines of the docblock
+   * @param   {ICommentStyle}  style   How the docblock is written
+   *
+   * @return  {string[]}               The docblock content
+   */
+  protected static getContent(source: string[], style: ICommentStyle): string[] {
+    const marker = style.separator.trim();
+
+    // Number of spaces between the separator's marker and its content
+    const padding = style.separator.length - style.separator.trimRight().length;
+
+    const expression = new RegExp(`^${DocBlock.escape(marker)}? {0,${padding}}`);
+
+    return source.map((line, index) => {
+      line = line.trim();
+
+      if (index === 0 && style.open) {
+        line = line.substr(style.open.length);
+      }
+
+      if (index === source.length - 1 && style.close) {
+        line = line.replace(/\*\/$/, '');
+      }
+
+      return line.replace(expression, '').trimRight();
+    }).filter((line, index) => {
+      // Skip the empty remainder of the opening and closing lines
+      const isEdge = style.open && (index === 0 || index === source.length - 1);
+
+      return line || !isEdge;
+    });
+  }
+
+  /**
+   * Determines how the provided docblock lines are written
+   *
+   * @param   {string[]}       source  The lines of the docblock
+   *
+   * @return  {ICommentStyle}          The docblock's style
+   */
+  protected static getStyle(source: string[]): ICommentStyle {
+    const first = (source[0] || '').trim();
+
+    if (first.startsWith('///')) {
+      const spaces = /^\/\/\/( *)/.exec(first)[1];
+
+      return { braces: true, close: '', drupal: false, open: '', separator: `///${spaces || ' '}` };
+    }
+
+    const [open] = /^\/\*[*!]?/.exec(first) || ['/**'];
+
+    // Use the spacing of the first separated line
+    const line = source.slice(1).find((item) => /^\s*\*\s+\S/.test(item));
+    const spaces = line ? /^\s*\*( +)/.exec(line)[1] : ' ';
+
+    return { braces: true, close: ' */', drupal: false, open, separator: ` *${spaces}` };
+  }
+
+  /**
+   * Escapes regular expression characters
+   *
+   * @param   {string}  value  The string to escape
+   *
+   * @return  {string}         The escaped string
+   */
+  protected static escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+
+  /**
+   * Splits a type wrapped in braces from the start of a tag's content
+   *
+   * @param   {string}    content  The content following the tag
+   *
+   * @return  {string[]}           The type and the remaining content
+   */
+  protected static splitBraces(content: string): string[] {
+    // Types may contain braces themselves
+    let depth = 0;
+
+    for (let i = 0; i < content.length; i++) {
+      depth += content[i] === '{' ? 1 : content[i] === '}' ? -1 : 0;
+
+      if (depth === 0) {
+        return [content.substring(1, i), content.substr(i + 1).trim()];
+      }
+    }
+
+    return [undefined, content];
+  }
+
+  /**
+   * Removes blank lines surrounding the provided lines
+   *
+   * @param   {string[]}  lines  The lines to trim
+   *
+   * @return  {string[]}         The trimmed lines
+   */
+  protected static trimLines(lines: string[]): string[] {
+    const result = [...lines];
+
+    while (result.length && !result[0].trim()) {
+      result.shift();
+    }
+
+    while (result.length && !result[result.length - 1].trim()) {
+      result.pop();
+    }
+
+    return result;
+  }
+}
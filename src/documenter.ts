@@ -0,0 +1,151 @@
+import {
+  CancellationToken,
+  Position,
+  ProgressLocation,
+  TextDocument,
+  TextEditor,
+  Uri,
+  window,
+  workspace,
+  WorkspaceEdit,
+} from 'vscode';
+
+import { Parser } from './parser';
+import { IDeclaration, Scanner } from './scanner';
+import { Snippets } from './snippets';
+
+/**
+ * Adds docblocks to every undocumented declaration of files in bulk
+ */
+export class Documenter {
+  /**
+   * Language specific code parser
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the documenter with the language parser of the document
+   *
+   * @param  {Parser}  parser  Code parser
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Inserts a docblock above an undocumented declaration
+   *
+   * Placeholders are rendered as plain text, as workspace edits cannot
+   * contain snippets.
+   *
+   * @param  {WorkspaceEdit}  edit         The edit to add to
+   * @param  {TextDocument}   document     The document of the declaration
+   * @param  {string[]}       lines        The lines of the document
+   * @param  {IDeclaration}   declaration  The undocumented declaration
+   */
+  public addBlock(edit: WorkspaceEdit, document: TextDocument, lines: string[], declaration: IDeclaration): void {
+    const line = new Scanner(this.parser).getInsertLine(lines, declaration.line);
+
+    const indent = /^\s*/.exec(lines[line])[0];
+
+    const { eos } = this.parser.settings;
+
+    Snippets.setDocument(this.parser, document);
+
+    const block = this.parser.renderBlock(declaration.symbols).toPlainText().split(eos);
+
+    const eol = Snippets.getEol(document);
+
+    const text = block.map((item) => item ? indent + item : item).join(eol) + eol;
+
+    edit.insert(document.uri, new Position(line, 0), text);
+  }
+
+  /**
+   * Inserts docblocks above every undocumented declaration of a document
+   *
+   * @param   {WorkspaceEdit}  edit      The edit to add to
+   * @param   {TextDocument}   document  The document to document
+   *
+   * @return  {number}                   The number of docblocks inserted
+   */
+  public document(edit: WorkspaceEdit, document: TextDocument): number {
+    const lines = document.getText().split(/\r?\n/);
+
+    const declarations = new Scanner(this.parser).scan(lines).filter((declaration) => !declaration.documented);
+
+    for (const declaration of declarations) {
+      this.addBlock(edit, document, lines, declaration);
+    }
+
+    return declarations.length;
+  }
+
+  /**
+   * Documents the provided files in a single edit, reporting the progress in a
+   * cancellable notification
+   *
+   * Nothing is changed when cancelled.
+   *
+   * @param   {Uri[]}    uris   The files to document
+   * @param   {string}   title  The title of the progress notification
+   *
+   * @return  {Promise}         Resolves once the edit was applied
+   */
+  public static async documentFiles(uris: Uri[], title: string): Promise<void> {
+    const edit = new WorkspaceEdit();
+
+    const options = { cancellable: true, location: ProgressLocation.Notification, title };
+
+    const count = await window.withProgress(options, async (progress, token: CancellationToken) => {
+      let total = 0;
+
+      for (const uri of uris) {
+        if (token.isCancellationRequested) {
+          return undefined;
+        }
+
+        progress.report({ increment: 100 / uris.length, message: workspace.asRelativePath(uri) });
+
+        const document = await workspace.openTextDocument(uri);
+
+        if (Object.prototype.hasOwnProperty.call(Snippets.languageList, document.languageId)) {
+          total += new Documenter(Snippets.getParser(document)).document(edit, document);
+        }
+      }
+
+      return total;
+    });
+
+    if (count === undefined) {
+      return;
+    }
+
+    await workspace.applyEdit(edit);
+
+    window.showInformationMessage(`Added ${count} docblock${count === 1 ? '' : 's'}`);
+  }
+
+  /**
+   * Documents every undocumented declaration of the document of the provided
+   * editor
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideDocumentFile(editor: TextEditor): Promise<void> {
+    await Documenter.documentFiles([editor.document.uri], 'Documenting file');
+  }
+
+  /**
+   * Documents every undocumented declaration of the files of the workspace
+   * matching `vs-docblockr.documentInclude`, but not
+   * `vs-docblockr.documentExclude`
+   */
+  public static async provideDocumentWorkspace(): Promise<void> {
+    const config = workspace.getConfiguration('vs-docblockr');
+
+    const uris = await workspace.findFiles(config.get('documentInclude'), config.get('documentExclude') || undefined);
+
+    await Documenter.documentFiles(uris, 'Documenting workspace');
+  }
+}
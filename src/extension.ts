@@ -1,5 +1,9 @@
-import { commands, ExtensionContext, LanguageConfiguration, languages } from 'vscode';
+import { commands, ExtensionContext, LanguageConfiguration, languages, workspace } from 'vscode';
 
+import { Actions } from './actions';
+import { Diagnostics } from './diagnostics';
+import { Documenter } from './documenter';
+import { Formatter } from './formatter';
 import { Rules } from './rules';
 import { Snippets } from './snippets';
 
@@ -9,11 +13,52 @@ import { Snippets } from './snippets';
  * @param  {ExtensionContext}  context  The extension context
  */
 export function activate(context: ExtensionContext): void {
+  // Settings are cached per language and workspace folder until they change
+  context.subscriptions.push(workspace.onDidChangeConfiguration(Snippets.onDidChangeConfiguration));
+
   registerCompletionItems(context);
 
   const command = 'vs-docblockr.renderFromSelection';
 
   commands.registerTextEditorCommand(command, Snippets.provideRenderFromSelectionSnippet);
+
+  const updateCommand = 'vs-docblockr.updateDocblock';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(updateCommand, Snippets.provideUpdateDocblock));
+
+  const headerCommand = 'vs-docblockr.insertFileHeader';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(headerCommand, Snippets.provideInsertFileHeader));
+
+  context.subscriptions.push(workspace.onDidCreateFiles(Snippets.onDidCreateFiles));
+
+  const documentFileCommand = 'vs-docblockr.documentFile';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(documentFileCommand, Documenter.provideDocumentFile));
+
+  const documentWorkspaceCommand = 'vs-docblockr.documentWorkspace';
+
+  context.subscriptions.push(commands.registerCommand(documentWorkspaceCommand, Documenter.provideDocumentWorkspace));
+
+  const reflowCommand = 'vs-docblockr.reflow';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(reflowCommand, Formatter.provideReflow));
+
+  const reflowFileCommand = 'vs-docblockr.reflowFile';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(reflowFileCommand, Formatter.provideReflowFile));
+
+  context.subscriptions.push(workspace.onWillSaveTextDocument(Formatter.onWillSaveTextDocument));
+
+  const realignCommand = 'vs-docblockr.realign';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(realignCommand, Formatter.provideRealign));
+
+  const realignAsCommand = 'vs-docblockr.realignAs';
+
+  context.subscriptions.push(commands.registerTextEditorCommand(realignAsCommand, Formatter.provideRealignAs));
+
+  Diagnostics.register(context);
 }
 
 /**
@@ -25,15 +70,23 @@ function registerCompletionItems(context: ExtensionContext) {
   // Register each language
   for (const language in Snippets.languageList) {
     if (Object.prototype.hasOwnProperty.call(Snippets.languageList, language)) {
-      // Get language parser object from list
-      const parser = Snippets.getParserFromLanguageID(language);
-      // Create snippet object with the parser above
-      const snippet = new Snippets(parser);
+      // Create snippet object, resolving the parser of each edited document
+      const snippet = new Snippets();
 
       // Register docblockr auto competition
       let disposable = languages.registerCompletionItemProvider(language, snippet, '*', '@');
       context.subscriptions.push(disposable);
 
+      // Register quick fixes for the reported docblock problems
+      const { providedCodeActionKinds } = Actions;
+
+      disposable = languages.registerCodeActionsProvider(language, new Actions(), { providedCodeActionKinds });
+      context.subscriptions.push(disposable);
+
+      // Realign the tags of docblocks when formatting a selection
+      disposable = languages.registerDocumentRangeFormattingEditProvider(language, new Formatter());
+      context.subscriptions.push(disposable);
+
       // List of classes that doesn't have docblock auto-completion supported
       const autoComplete = [
         'java',
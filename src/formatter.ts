@@ -0,0 +1,267 @@
+import {
+  DocumentRangeFormattingEditProvider,
+  Range,
+  TextDocument,
+  TextDocumentWillSaveEvent,
+  TextEdit,
+  TextEditor,
+  window,
+  workspace,
+} from 'vscode';
+
+import { Aligner, IAlignOptions } from './aligner';
+import { DocBlock, IBlockRange } from './docblock';
+import { Reflow } from './reflow';
+import { Snippets } from './snippets';
+
+/**
+ * Rewrites the layout of existing docblocks
+ */
+export class Formatter implements DocumentRangeFormattingEditProvider {
+  /**
+   * The column text is wrapped at without a setting or ruler
+   */
+  public static defaultColumn = 80;
+
+  /**
+   * The layouts offered by the `Realign docblock as` command keyed by label
+   */
+  public static readonly layouts: { [label: string]: Pick<IAlignOptions, 'align' | 'drupal'> } = {
+    'Aligned': { align: true, drupal: false },
+    'Drupal style': { align: true, drupal: true },
+    'Not aligned': { align: false, drupal: false },
+  };
+
+  /**
+   * Realigns the tags of the docblocks within a range of a document
+   *
+   * @param   {TextDocument}  document  The document to format
+   * @param   {Range}         range     The range to format
+   *
+   * @return  {TextEdit[]}              The edits of the docblocks that changed
+   */
+  public provideDocumentRangeFormattingEdits(document: TextDocument, range: Range): TextEdit[] {
+    const lines = document.getText().split(/\r?\n/);
+
+    const open = Snippets.getParser(document).settings.commentOpen.trim();
+
+    const ranges = Reflow.findBlocks(lines, open).filter(({ end, start }) => {
+      return start <= range.end.line && end >= range.start.line;
+    });
+
+    return ranges.length ? Formatter.getAlignEdits(document, ranges) : [];
+  }
+
+  /**
+   * Creates the edits realigning the tags of docblocks of a document
+   *
+   * @param   {TextDocument}   document  The document to realign
+   * @param   {IBlockRange[]}  ranges    The docblocks to realign, defaults to
+   *                                     every docblock of the document
+   * @param   {Aligner}        aligner   The layout to realign to, defaults to
+   *                                     the one configured for the document
+   *
+   * @return  {TextEdit[]}               The edits of the docblocks that
+   *                                     changed
+   */
+  public static getAlignEdits(document: TextDocument, ranges?: IBlockRange[], aligner?: Aligner): TextEdit[] {
+    const format = aligner || Aligner.fromParser(Snippets.getParser(document));
+
+    return Formatter.getEdits(document, (lines) => format.align(lines), ranges);
+  }
+
+  /**
+   * Determines the column the docblocks of a document are reflowed to
+   *
+   * @param   {TextDocument}  document  The document to reflow
+   *
+   * @return  {number}                  The `vs-docblockr.reflowColumn`
+   *                                    setting, the first ruler of the editor
+   *                                    otherwise
+   */
+  public static getColumn(document: TextDocument): number {
+    const column = workspace.getConfiguration('vs-docblockr', document).get<number>('reflowColumn');
+
+    if (column > 0) {
+      return column;
+    }
+
+    // Rulers are either columns or objects describing a column and its color
+    const [ruler] = workspace.getConfiguration('editor', document).get<Array<number | { column: number }>>('rulers');
+
+    if (ruler === undefined) {
+      return Formatter.defaultColumn;
+    }
+
+    return typeof ruler === 'number' ? ruler : ruler.column;
+  }
+
+  /**
+   * Creates the edits reflowing docblocks of a document
+   *
+   * @param   {TextDocument}   document  The document to reflow
+   * @param   {IBlockRange[]}  ranges    The docblocks to reflow, defaults to
+   *                                     every docblock of the document
+   *
+   * @return  {TextEdit[]}               The edits of the docblocks that
+   *                                     changed
+   */
+  public static getReflowEdits(document: TextDocument, ranges?: IBlockRange[]): TextEdit[] {
+    const reflow = new Reflow(Formatter.getColumn(document));
+
+    return Formatter.getEdits(document, (lines) => reflow.reflow(lines), ranges);
+  }
+
+  /**
+   * Reflows every docblock of documents about to be saved, when
+   * `vs-docblockr.reflowOnSave` is enabled
+   *
+   * @param  {TextDocumentWillSaveEvent}  event  The document being saved
+   */
+  public static onWillSaveTextDocument(event: TextDocumentWillSaveEvent): void {
+    const { document } = event;
+
+    const isSupported = Object.prototype.hasOwnProperty.call(Snippets.languageList, document.languageId);
+
+    if (isSupported && workspace.getConfiguration('vs-docblockr', document).get('reflowOnSave')) {
+      event.waitUntil(Promise.resolve(Formatter.getReflowEdits(document)));
+    }
+  }
+
+  /**
+   * Realigns the tags of the docblock under the cursor of the provided editor
+   * to the configured layout
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideRealign(editor: TextEditor): Promise<void> {
+    const range = Formatter.findBlock(editor);
+
+    if (!range) {
+      window.showErrorMessage('No docblock was found to realign');
+
+      return;
+    }
+
+    await Formatter.applyEdits(editor, Formatter.getAlignEdits(editor.document, [range]));
+  }
+
+  /**
+   * Realigns the tags of the docblock under the cursor of the provided editor
+   * to a layout picked by the user
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideRealignAs(editor: TextEditor): Promise<void> {
+    const range = Formatter.findBlock(editor);
+
+    if (!range) {
+      window.showErrorMessage('No docblock was found to realign');
+
+      return;
+    }
+
+    const label = await window.showQuickPick(Object.keys(Formatter.layouts), { placeHolder: 'Realign docblock as' });
+
+    if (!label) {
+      return;
+    }
+
+    const { columnSpacing, types } = Aligner.fromParser(Snippets.getParser(editor.document)).options;
+
+    const aligner = new Aligner({ ...Formatter.layouts[label], columnSpacing, types });
+
+    await Formatter.applyEdits(editor, Formatter.getAlignEdits(editor.document, [range], aligner));
+  }
+
+  /**
+   * Reflows the docblock under the cursor of the provided editor
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideReflow(editor: TextEditor): Promise<void> {
+    const range = Formatter.findBlock(editor);
+
+    if (!range) {
+      window.showErrorMessage('No docblock was found to reflow');
+
+      return;
+    }
+
+    await Formatter.applyEdits(editor, Formatter.getReflowEdits(editor.document, [range]));
+  }
+
+  /**
+   * Reflows every docblock of the document of the provided editor
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideReflowFile(editor: TextEditor): Promise<void> {
+    await Formatter.applyEdits(editor, Formatter.getReflowEdits(editor.document));
+  }
+
+  /**
+   * Applies edits to the document of an editor as a single undo step
+   *
+   * @param  {TextEditor}  editor  The editor to edit
+   * @param  {TextEdit[]}  edits   The edits to apply
+   */
+  protected static async applyEdits(editor: TextEditor, edits: TextEdit[]): Promise<void> {
+    if (edits.length) {
+      await editor.edit((builder) => edits.forEach((edit) => builder.replace(edit.range, edit.newText)));
+    }
+  }
+
+  /**
+   * Finds the docblock under the cursor of an editor
+   *
+   * @param   {TextEditor}   editor  The editor to search
+   *
+   * @return  {IBlockRange}          The lines of the docblock, undefined if
+   *                                 the cursor is not within one
+   */
+  protected static findBlock(editor: TextEditor): IBlockRange {
+    const { document } = editor;
+
+    const open = Snippets.getParser(document).settings.commentOpen.trim();
+
+    return DocBlock.find(document.getText().split(/\r?\n/), editor.selection.active.line, open);
+  }
+
+  /**
+   * Creates the edits rewriting docblocks of a document
+   *
+   * @param   {TextDocument}   document  The document to rewrite
+   * @param   {Function}       format    Rewrites the lines of a docblock
+   * @param   {IBlockRange[]}  ranges    The docblocks to rewrite, defaults to
+   *                                     every docblock of the document
+   *
+   * @return  {TextEdit[]}               The edits of the docblocks that
+   *                                     changed
+   */
+  protected static getEdits(
+    document: TextDocument,
+    format: (lines: string[]) => string[],
+    ranges?: IBlockRange[],
+  ): TextEdit[] {
+    const lines = document.getText().split(/\r?\n/);
+
+    const eol = Snippets.getEol(document);
+
+    const open = Snippets.getParser(document).settings.commentOpen.trim();
+
+    const edits: TextEdit[] = [];
+
+    for (const { end, start } of ranges || Reflow.findBlocks(lines, open)) {
+      const source = lines.slice(start, end + 1);
+
+      const result = format(source);
+
+      if (result.join(eol) !== source.join(eol)) {
+        edits.push(TextEdit.replace(new Range(start, 0, end, lines[end].length), result.join(eol)));
+      }
+    }
+
+    return edits;
+  }
+}
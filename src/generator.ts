@@ -0,0 +1,165 @@
+import * as path from 'path';
+
+import { IConfiguration } from './configuration';
+import { Parser } from './parser';
+import { Snippet } from './snippet';
+
+import { C } from './languages/c';
+import { Java } from './languages/java';
+import { PHP } from './languages/php';
+import { SCSS } from './languages/scss';
+import { TypeScript } from './languages/typescript';
+
+/**
+ * Describes what a docblock is generated for
+ */
+export interface IGeneratorOptions {
+  /**
+   * The configuration of the generated docblock
+   */
+  config?: IConfiguration;
+
+  /**
+   * Path of the document the code belongs to, used by variables such as
+   * `${fileName}`
+   */
+  fileName?: string;
+
+  /**
+   * The ID of the language of the code, such as `php`
+   */
+  language: string;
+
+  /**
+   * The line of the code the documented signature begins on, defaults to the
+   * first line
+   */
+  line?: number;
+}
+
+/**
+ * Generates docblocks from source code, independently of any editor
+ */
+export class Generator {
+  /**
+   * Language IDs keyed by file extension
+   */
+  public static extensions = {
+    c: 'c',
+    cc: 'cpp',
+    cpp: 'cpp',
+    h: 'c',
+    hpp: 'cpp',
+    java: 'java',
+    js: 'javascript',
+    jsx: 'javascript',
+    mjs: 'javascript',
+    php: 'php',
+    scss: 'scss',
+    ts: 'typescript',
+    tsx: 'typescript',
+    vue: 'vue',
+  };
+
+  /**
+   * Language specific parsers keyed by language ID
+   */
+  public static languages = {
+    c: C,
+    cpp: C,
+    java: Java,
+    javascript: TypeScript,
+    php: PHP,
+    scss: SCSS,
+    typescript: TypeScript,
+    vue: TypeScript,
+  };
+
+  /**
+   * Creates the parser of a language
+   *
+   * @param   {string}          language  A language ID
+   * @param   {IConfiguration}  config    The configuration of the parser
+   *
+   * @return  {Parser}                    A language specific parser instance
+   */
+  public static createParser(language: string, config: IConfiguration = {}): Parser {
+    if (!Generator.isSupported(language)) {
+      throw new Error(`This language is not supported: ${language}`);
+    }
+
+    const parser = new Generator.languages[language]() as Parser;
+
+    parser.languageId = language;
+
+    parser.configure(config);
+
+    return parser;
+  }
+
+  /**
+   * Determines the language of a file from its extension
+   *
+   * @param   {string}  fileName  Path of the file
+   *
+   * @return  {string}            The language ID, undefined if the language is
+   *                              not supported
+   */
+  public static getLanguage(fileName: string): string {
+    const extension = path.extname(fileName).slice(1).toLowerCase();
+
+    if (Object.prototype.hasOwnProperty.call(Generator.extensions, extension)) {
+      return Generator.extensions[extension];
+    }
+  }
+
+  /**
+   * Checks whether docblocks can be generated for a language
+   *
+   * @param   {string}   language  A language ID
+   *
+   * @return  {boolean}            True if the language is supported
+   */
+  public static isSupported(language: string): boolean {
+    return Object.prototype.hasOwnProperty.call(Generator.languages, language);
+  }
+
+  /**
+   * Renders the docblock of the signature found in the provided code
+   *
+   * @param   {string}             code     The source code
+   * @param   {IGeneratorOptions}  options  What the docblock is generated for
+   *
+   * @return  {Snippet}                     The docblock, an empty docblock if
+   *                                        no signature could be parsed
+   */
+  public static render(code: string, options: IGeneratorOptions): Snippet {
+    const parser = Generator.createParser(options.language, options.config);
+
+    parser.fileName = options.fileName || '';
+
+    try {
+      const signature = parser.getSignatureFromLines(code.split(/\r?\n/), options.line || 0);
+
+      return parser.renderBlock(parser.getSymbols(signature));
+    } catch (error) {
+      return parser.renderEmptyBlock();
+    }
+  }
+
+  /**
+   * Renders the comment describing a file
+   *
+   * @param   {IGeneratorOptions}  options  What the file header is generated
+   *                                        for
+   *
+   * @return  {Snippet}                     The file header
+   */
+  public static renderFileHeader(options: IGeneratorOptions): Snippet {
+    const parser = Generator.createParser(options.language, options.config);
+
+    parser.fileName = options.fileName || '';
+
+    return parser.renderFileHeader();
+  }
+}
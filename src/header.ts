@@ -0,0 +1,76 @@
+import { Parser } from './parser';
+import { Snippet } from './snippet';
+
+/**
+ * Inserts the comment describing a document at the top of the file
+ */
+export class FileHeader {
+  /**
+   * Lines that must remain at the top of a file, such as shebangs
+   */
+  public static readonly leadingLines = /^(#!|<\?php\b)/;
+
+  /**
+   * Language specific code parser
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the file header with the language parser of the document
+   *
+   * @param  {Parser}  parser  Code parser
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Determines the line the file header is inserted at
+   *
+   * @param   {string[]}  lines  The lines of the document
+   *
+   * @return  {number}           The line following the lines that must remain
+   *                             at the top of the file
+   */
+  public getInsertLine(lines: string[]): number {
+    let line = 0;
+
+    while (line < lines.length && FileHeader.leadingLines.test(lines[line])) {
+      line++;
+    }
+
+    return line;
+  }
+
+  /**
+   * Renders the file header inserted at the insert line of the document
+   *
+   * @param   {string[]}  lines  The lines of the document
+   *
+   * @return  {Snippet}          The file header, followed by the end of line
+   *                             sequences separating it from the code
+   */
+  public render(lines: string[]): Snippet {
+    const { eos } = this.parser.settings;
+
+    const line = this.getInsertLine(lines);
+
+    const { preamble } = this.parser;
+
+    const snippet = new Snippet();
+
+    // Files such as PHP scripts cannot start with the header
+    if (preamble && !lines.join('').trim()) {
+      snippet.appendText(preamble + eos + eos);
+    }
+
+    snippet.value += this.parser.renderFileHeader().value + eos;
+
+    // Separate the header from the code following it
+    if (line < lines.length && lines[line].trim()) {
+      snippet.appendText(eos);
+    }
+
+    return snippet;
+  }
+}
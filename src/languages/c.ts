@@ -1,8 +1,7 @@
 import { Token } from 'acorn';
-import { SymbolKind } from 'vscode';
 
 import { Parser } from '../parser';
-import { Symbols } from '../symbols';
+import { Symbols, SymbolKind } from '../symbols';
 
 /**
  * Parses tokens for the C/C++ language
@@ -94,11 +93,33 @@ export class C extends Parser {
     }
   }
 
+  /**
+   * Parses the tokens noting references and varargs among the parameters
+   *
+   * @param  {Token}    token    The token retrieved from acorn
+   * @param  {Symbols}  symbols  The symbols parsed from the tokens
+   */
+  protected parseParameterNotation(token: Token, symbols: Symbols): void {
+    const lastParam = symbols.getParameter(symbols.getLastParameterIndex());
+
+    // References are noted between the type and the name of a parameter
+    if (token.type.label === '&' && this.expectParameterType && lastParam) {
+      lastParam.byRef = true;
+    }
+
+    // Varargs are documented as a parameter of their own
+    if (token.type.label === '...') {
+      symbols.addParameter({ name: '...', rest: true });
+    }
+  }
+
   /**
    * @inheritdoc
    */
   protected parseParameters(token: Token, symbols: Symbols): void {
     if (symbols.type === SymbolKind.Function && this.expectParameter) {
+      this.parseParameterNotation(token, symbols);
+
       // Check if a parameter type should be expected
       if (token.value && this.grammar.is(token.value, 'types') && this.expectParameter) {
         this.expectParameterType = true;
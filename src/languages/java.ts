@@ -1,12 +1,33 @@
 import { Token } from 'acorn';
-import { SymbolKind } from 'vscode';
+
 import { Parser } from '../parser';
-import { Symbols } from '../symbols';
+import { Symbols, SymbolKind } from '../symbols';
 
 /**
  * Parses tokens for the Java language
  */
 export class Java extends Parser {
+  /**
+   * @inheritdoc
+   */
+  public defaultDialect = 'javadoc';
+
+  /**
+   * The tokens of the parameter being parsed, such as `String`, `...` and
+   * `args`
+   *
+   * @var {string[]}
+   */
+  public parameterTokens: string[] = [];
+
+  /**
+   * The number of type argument lists the parser is within, such as the
+   * `<String, Integer>` of `Map<String, Integer>`
+   *
+   * @var {number}
+   */
+  public typeDepth = 0;
+
   /**
    * Constructs settings specific to Java
    */
@@ -57,6 +78,34 @@ export class Java extends Parser {
     });
   }
 
+  /**
+   * Adds the parameter written by the collected tokens, such as `String...
+   * args` or `Map<String, Integer> counts`
+   *
+   * The name is the last token, preceded by the type. Varargs are noted
+   * between the type and the name.
+   *
+   * @param  {Symbols}  symbols  The symbols parsed from the tokens
+   */
+  protected addParameter(symbols: Symbols): void {
+    const tokens = this.parameterTokens.filter((text) => !this.grammar.is(text, 'modifiers'));
+
+    this.parameterTokens = [];
+
+    const name = tokens.pop();
+
+    if (!tokens.length || !this.isName(name)) {
+      return;
+    }
+
+    const rest = tokens.includes('...');
+
+    // Separate the type arguments of generic types, such as `Map<K, V>`
+    const type = tokens.filter((text) => text !== '...').join('').replace(/,/g, ', ');
+
+    symbols.addParameter(rest ? { name, rest, type } : { name, type });
+  }
+
   /**
    * @inheritdoc
    */
@@ -120,34 +169,26 @@ export class Java extends Parser {
    * @inheritdoc
    */
   protected parseParameters(token: Token, symbols: Symbols): void {
-    if (symbols.type === SymbolKind.Function && this.expectParameter) {
-      // Check if a parameter type should be expected
-      if (token.value && this.grammar.is(token.value, 'types') && this.expectParameter) {
-        this.expectParameterType = true;
-
-        symbols.addParameter({
-          name: '',
-          type: token.value,
-        });
-      }
-
-      // Add the parameter name after the parameter type has been found
-      if (this.expectParameterType && token.value) {
-        const lastParam = symbols.getParameter(symbols.getLastParameterIndex());
-
-        if (lastParam) {
-          lastParam.name = token.value;
-        }
-      }
-
-      if (token.type.label === ')') {
-        this.expectParameter = false;
-
-        return;
-      }
+    if (symbols.type !== SymbolKind.Function || !this.expectParameter || token.type.label === '(') {
+      return;
     }
 
-    return;
+    const text = token.value === undefined ? token.type.label : String(token.value);
+
+    // Commas separate parameters, unless they separate type arguments
+    if (token.type.label === ')' || (token.type.label === ',' && !this.typeDepth)) {
+      this.addParameter(symbols);
+
+      this.expectParameter = token.type.label !== ')';
+
+      return;
+    }
+
+    if (/^[<>]+$/.test(text)) {
+      this.typeDepth += text.split('<').length - text.split('>').length;
+    }
+
+    this.parameterTokens.push(text);
   }
 
   /**
@@ -171,4 +212,14 @@ export class Java extends Parser {
       this.expectName = false;
     }
   }
+
+  /**
+   * @inheritdoc
+   */
+  protected reset(): void {
+    super.reset();
+
+    this.parameterTokens = [];
+    this.typeDepth = 0;
+  }
 }
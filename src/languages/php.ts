@@ -1,13 +1,67 @@
 import { Token } from 'acorn';
-import { SymbolKind } from 'vscode';
 
 import { Parser } from '../parser';
-import { Symbols } from '../symbols';
+import { IParam, Symbols, SymbolKind } from '../symbols';
 
 /**
  * Parses tokens for the PHP language
  */
 export class PHP extends Parser {
+  /**
+   * @inheritdoc
+   */
+  public defaultDialect = 'phpdoc';
+
+  /**
+   * Informs the parser that the next type is nullable
+   *
+   * @example
+   * function foo(?string $bar): ?array {
+   * }
+   *
+   * @var {boolean}
+   */
+  public expectNullable = false;
+
+  /**
+   * Informs the parser that the next parameter is passed by reference
+   *
+   * @example
+   * function foo(array &$bar) {
+   * }
+   *
+   * @var {boolean}
+   */
+  public expectReference = false;
+
+  /**
+   * Informs the parser that the next parameter is variadic
+   *
+   * @example
+   * function foo(string ...$bar) {
+   * }
+   *
+   * @var {boolean}
+   */
+  public expectVariadic = false;
+
+  /**
+   * @inheritdoc
+   */
+  public literalTypes: Array<[RegExp, string]> = [
+    [/^[-+]?(\d*\.\d|\d+e)/i, 'float'],
+    [/^[-+]?\d/, 'int'],
+    [/^['"]/, 'string'],
+    [/^(true|false)$/i, 'bool'],
+    [/^(\[|array\s*\()/i, 'array'],
+    [/^null$/i, 'null'],
+  ];
+
+  /**
+   * @inheritdoc
+   */
+  public preamble = '<?php';
+
   /**
    * Constructs settings specific to PHP
    */
@@ -53,6 +107,51 @@ export class PHP extends Parser {
     });
   }
 
+  /**
+   * Notes a type as nullable when preceded by `?`
+   *
+   * @param   {string}  type  The type hint
+   *
+   * @return  {string}        The type hint, such as `?string`
+   */
+  protected applyNullable(type: string): string {
+    const result = this.expectNullable ? `?${type}` : type;
+
+    this.expectNullable = false;
+
+    return result;
+  }
+
+  /**
+   * Marks a parameter as passed by reference or variadic, as noted by the
+   * tokens preceding its name
+   *
+   * @param  {IParam}  param  The parameter whose name was found
+   */
+  protected applyParameterFlags(param: IParam): void {
+    if (this.expectReference) {
+      param.byRef = true;
+    }
+
+    if (this.expectVariadic) {
+      param.rest = true;
+    }
+
+    this.expectReference = false;
+    this.expectVariadic = false;
+  }
+
+  /**
+   * @inheritdoc
+   *
+   * Type hints defaulting to `null` are nullable, such as `?int`.
+   */
+  protected inferType(param: IParam): string {
+    const isNullable = param.type && /^null$/i.test(param.val || '') && !param.type.startsWith('?');
+
+    return isNullable ? `?${param.type}` : super.inferType(param);
+  }
+
   /**
    * Checks if the given string is a PHP type hint property
    *
@@ -170,21 +269,7 @@ export class PHP extends Parser {
         return;
       }
 
-      // Expect a function return type
-      if (token.type.label === ':' && !this.expectParameter) {
-        this.expectReturnType = true;
-
-        return;
-      }
-
-      // Check for a valid function return type
-      if (this.expectReturnType && this.matchesIdentifier(token.value)) {
-        this.expectReturnType = false;
-
-        symbols.return.type = token.value;
-
-        return;
-      }
+      this.parseReturnType(token, symbols);
     }
   }
 
@@ -199,9 +284,11 @@ export class PHP extends Parser {
 
     // Check for a valid parameter name
     if (this.expectParameter && this.isVariableName(token.value) && notType) {
-      symbols.addParameter({
-        name: token.value,
-      });
+      const param: IParam = { name: token.value };
+
+      this.applyParameterFlags(param);
+
+      symbols.addParameter(param);
 
       return;
     }
@@ -220,7 +307,7 @@ export class PHP extends Parser {
 
       symbols.addParameter({
         name: '',
-        type: token.value,
+        type: this.applyNullable(token.value),
       });
     }
 
@@ -231,6 +318,8 @@ export class PHP extends Parser {
       if (lastParam) {
         lastParam.name = token.value;
 
+        this.applyParameterFlags(lastParam);
+
         this.expectParameterType = false;
       }
     }
@@ -247,6 +336,16 @@ export class PHP extends Parser {
         this.expectParameter = true;
       }
 
+      // References and variadics are noted before the parameter name, and
+      // nullable types before the type
+      if (this.expectParameter && token.type.label === '&') {
+        this.expectReference = true;
+      } else if (this.expectParameter && token.type.label === '...') {
+        this.expectVariadic = true;
+      } else if (this.expectParameter && token.type.label === '?') {
+        this.expectNullable = true;
+      }
+
       this.parseParameterName(token, symbols);
       this.parseParameterType(token, symbols);
 
@@ -259,6 +358,35 @@ export class PHP extends Parser {
   }
 
 
+  /**
+   * Parses the return type following the parameters of a function
+   *
+   * @param  {Token}    token    The token retrieved from acorn
+   * @param  {Symbols}  symbols  The symbols parsed from the tokens
+   */
+  protected parseReturnType(token: Token, symbols: Symbols): void {
+    // Expect a function return type
+    if (token.type.label === ':' && !this.expectParameter) {
+      this.expectReturnType = true;
+
+      return;
+    }
+
+    // Nullable return types are noted before the type
+    if (this.expectReturnType && token.type.label === '?') {
+      this.expectNullable = true;
+
+      return;
+    }
+
+    // Check for a valid function return type
+    if (this.expectReturnType && this.matchesIdentifier(token.value)) {
+      this.expectReturnType = false;
+
+      symbols.return.type = this.applyNullable(token.value);
+    }
+  }
+
   /**
    * @inheritdoc
    */
@@ -287,4 +415,15 @@ export class PHP extends Parser {
       return;
     }
   }
+
+  /**
+   * @inheritdoc
+   */
+  protected reset(): void {
+    super.reset();
+
+    this.expectNullable = false;
+    this.expectReference = false;
+    this.expectVariadic = false;
+  }
 }
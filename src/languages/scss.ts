@@ -1,22 +1,23 @@
 import { Token } from 'acorn';
-import { SnippetString, SymbolKind, workspace } from 'vscode';
 
+import { IConfiguration } from '../configuration';
 import { Parser } from '../parser';
-import { Symbols } from '../symbols';
+import { Symbols, SymbolKind } from '../symbols';
 
 /**
  * Parses tokens for the SCSS language
  */
 export class SCSS extends Parser {
+  /**
+   * @inheritdoc
+   */
+  public defaultDialect = 'sassdoc';
+
   /**
    * Constructs settings specific to SCSS
    */
   constructor() {
-    const config = workspace.getConfiguration('vs-docblockr');
-
     super({
-      commentClose: config.get('scssCommentClose'),
-      commentOpen: config.get('scssCommentOpen'),
       grammar: {
         namespace:  [],
         class: ['class'],
@@ -26,83 +27,38 @@ export class SCSS extends Parser {
         types: [],
         variables: [],
       },
-      separator: `${config.get('scssCommentSeparator')} `,
     });
   }
 
   /**
-   * @inheritdoc
+   * Applies the SCSS comment settings along with the provided configuration
+   *
+   * @param  {IConfiguration}  config  The configuration to apply
    */
-  public addParamTag(
-    snippet: SnippetString,
-    typeSpace: string,
-    type: string,
-    nameSpace: string,
-    name: string,
-    descSpace: string,
-    desc: string,
-  ): void {
-    if (this.style === 'drupal') {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@param ')
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(' ')
-        .appendText(name)
-        .appendText(this.settings.eos)
-        .appendText(this.settings.separator)
-        .appendText('  ')
-        .appendPlaceholder(desc);
-    } else {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText(`@param${typeSpace}`)
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(nameSpace)
-        .appendText(name)
-        .appendText(descSpace)
-        .appendPlaceholder(desc);
+  public configure(config: IConfiguration): void {
+    super.configure(config);
+
+    const { scssCommentClose, scssCommentOpen, scssCommentSeparator } = config;
+
+    if (typeof scssCommentClose === 'string') {
+      this.settings.commentClose = scssCommentClose;
     }
-  }
 
-  /**
-   * @inheritdoc
-   */
-  public addReturnTag(snippet: SnippetString, typeSpacing: string, type: string, spacing: string, desc: string): void {
-    if (this.style === 'drupal') {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@return ')
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(`${this.settings.eos}${this.settings.separator}  `)
-        .appendPlaceholder(desc);
-    } else {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@return')
-        .appendText(typeSpacing)
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(spacing)
-        .appendPlaceholder(desc);
+    if (typeof scssCommentOpen === 'string') {
+      this.settings.commentOpen = scssCommentOpen;
+    }
+
+    if (typeof scssCommentSeparator === 'string') {
+      this.settings.separator = `${scssCommentSeparator} `;
     }
   }
 
   /**
    * @inheritdoc
    */
-  public getSymbols(code: string): Symbols {
-    // Strip leading @ characters, as these will break acorn tokenization
-    code = code.replace('@', '');
-
-    return super.getSymbols(code);
+  public getTokens(code: string): Token[] {
+    // Strip @ characters, as these will break acorn tokenization
+    return super.getTokens(code.replace(/@/g, ''));
   }
 
   /**
@@ -1,34 +1,40 @@
 import { Token } from 'acorn';
-import { SnippetString, SymbolKind } from 'vscode';
+import * as ts from 'typescript';
 
 import { Parser } from '../parser';
-import { Symbols } from '../symbols';
+import { IParam, Symbols, SymbolKind } from '../symbols';
 
 /**
- * Parses tokens for the TypeScript and JavaScript language
+ * Parses the syntax tree of TypeScript and JavaScript code
  */
 export class TypeScript extends Parser {
   /**
-   * Informs the parser that the next token should be a generic parameter type
-   *
-   * @example
-   * function foo(bar: Array<number>) {
-   * }
-   *
-   * @var {boolean}
+   * Kinds of declarations documented by their name alone
    */
-  public expectGenericParameterType = false;
+  public static readonly namedKinds: { [kind: number]: SymbolKind } = {
+    [ts.SyntaxKind.ClassDeclaration]: SymbolKind.Class,
+    [ts.SyntaxKind.EnumDeclaration]: SymbolKind.Class,
+    [ts.SyntaxKind.InterfaceDeclaration]: SymbolKind.Class,
+    [ts.SyntaxKind.ModuleDeclaration]: SymbolKind.Namespace,
+    [ts.SyntaxKind.TypeAliasDeclaration]: SymbolKind.Class,
+  };
 
   /**
-   * Informs the parser that the next token should be a generic return type
-   *
-   * @example
-   * function foo(): Array<number> {
-   * }
-   *
-   * @var {boolean}
+   * @inheritdoc
    */
-  public expectGenericReturnType = false;
+  public defaultDialect = 'jsdoc';
+
+  /**
+   * @inheritdoc
+   */
+  public literalTypes: Array<[RegExp, string]> = [
+    [/^[-+]?(\d|\.\d)/, 'number'],
+    [/^['"`]/, 'string'],
+    [/^(true|false)$/, 'boolean'],
+    [/^\[/, 'Array'],
+    [/^\{/, 'Object'],
+    [/^null$/, 'null'],
+  ];
 
   /**
    * Constructs settings specific to TypeScript
@@ -48,12 +54,18 @@ export class TypeScript extends Parser {
         ],
         identifier: '([a-zA-Z_$0-9]+)',
         modifiers: [
+          'abstract',
+          'async',
+          'declare',
+          'default',
+          'export',
           'get',
           'set',
           'static',
           'public',
           'private',
           'protected',
+          'readonly',
         ],
         types: [
           'any',
@@ -75,352 +87,574 @@ export class TypeScript extends Parser {
   }
 
   /**
-   * @inheritdoc
+   * Retrieves the symbol declared by the provided code snippet
+   *
+   * The code is parsed as a statement, then as a property of an object
+   * literal, such as `foo: function (a) {`, then as a class member, such as a
+   * method, when it declares nothing as a statement.
+   *
+   * @param   {string}   code  The code snippet to parse
+   *
+   * @return  {Symbols}        The parsed symbol
    */
-  public addParamTag(
-    snippet: SnippetString,
-    typeSpace: string,
-    type: string,
-    nameSpace: string,
-    name: string,
-    descSpace: string,
-    desc: string,
-  ): void {
-    if (this.style === 'drupal') {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@param ')
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(' ')
-        .appendText(name)
-        .appendText(this.settings.eos)
-        .appendText(this.settings.separator)
-        .appendText('  ')
-        .appendPlaceholder(desc);
-    } else {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText(`@param${typeSpace}`)
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(nameSpace)
-        .appendText(name)
-        .appendText(descSpace)
-        .appendPlaceholder(desc);
+  public getSymbols(code: string): Symbols {
+    const symbols = new Symbols();
+
+    const [statement] = TypeScript.parse(code).statements;
+
+    // Statements skip the modifiers of class members, such as `public`
+    const isWhole = statement && statement.getStart() === code.search(/\S/);
+
+    if (isWhole && this.visitStatement(statement, symbols)) {
+      return symbols;
+    }
+
+    // Control statements, such as `if (x) {`, would otherwise parse as methods
+    if (isWhole && !ts.isExpressionStatement(statement) && !ts.isLabeledStatement(statement)) {
+      return symbols;
+    }
+
+    const property = TypeScript.parseProperty(code);
+
+    if (property) {
+      this.visitValue(property.initializer, property.name, symbols);
+
+      return symbols;
     }
+
+    const [member] = (TypeScript.parse(`class _ {\n${code}\n}`).statements[0] as ts.ClassDeclaration).members;
+
+    if (member) {
+      this.visitMember(member, symbols);
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Retrieves the name a destructured parameter is documented by
+   *
+   * @param   {ts.ParameterDeclaration}  node  The destructured parameter
+   *
+   * @return  {string}                         The `destructuredName`, numbered
+   *                                           from the second destructured
+   *                                           parameter of the function on
+   */
+  protected getDestructuredName(node: ts.ParameterDeclaration): string {
+    const patterns = node.parent.parameters.filter((param) => !ts.isIdentifier(param.name));
+    const index = patterns.indexOf(node);
+
+    return this.destructuredName + (index ? index + 1 : '');
   }
 
   /**
    * @inheritdoc
    */
-  public addReturnTag(snippet: SnippetString, typeSpacing: string, type: string, spacing: string, desc: string): void {
-    if (this.style === 'drupal') {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@return ')
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(`${this.settings.eos}${this.settings.separator}  `)
-        .appendPlaceholder(desc);
-    } else {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@return')
-        .appendText(typeSpacing)
-        .appendText('{')
-        .appendPlaceholder(type)
-        .appendText('}')
-        .appendText(spacing)
-        .appendPlaceholder(desc);
-    }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseClass(token: Token, symbols: Symbols): void {
+    return;
   }
 
   /**
    * @inheritdoc
    */
-  public addVarTag(snippet: SnippetString, type: string): void {
-    snippet
-      .appendText(`${this.settings.separator}@var `)
-      .appendText('{')
-      .appendPlaceholder(type)
-      .appendText('}');
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseFunction(token: Token, symbols: Symbols): void {
+    return;
   }
 
   /**
    * @inheritdoc
    */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   protected parseNamespace(token: Token, symbols: Symbols): void {
-    // Check if the token represents a namespace identifier
-    if (this.grammar.is(token.value, 'namespace')) {
-      symbols.type = SymbolKind.Namespace;
-
-      this.expectName = true;
-
-      return;
-    }
-
-    // Check if the current token represents a valid namespace name
-    if (this.expectName && symbols.type === SymbolKind.Namespace && this.isName(token.value)) {
-      symbols.name = token.value;
+    return;
+  }
 
-      this.expectName = false;
-      this.done = true;
-    }
+  /**
+   * @inheritdoc
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseParameters(token: Token, symbols: Symbols): void {
+    return;
   }
 
   /**
    * @inheritdoc
    */
-  // eslint-disable-next-line @typescript-eslint/member-ordering
-  protected parseClass(token: Token, symbols: Symbols): void {
-    // Check if the token represents a class identifier
-    if (this.grammar.is(token.value, 'class')) {
-      symbols.type = SymbolKind.Class;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected parseVariable(token: Token, symbols: Symbols): void {
+    return;
+  }
 
-      this.expectName = true;
+  /**
+   * Retrieves the type of a parameter
+   *
+   * @param   {ts.BindingName}  name  The name of the parameter
+   * @param   {ts.TypeNode}     type  The declared type of the parameter
+   *
+   * @return  {string}                The type, `Object` for object types of
+   *                                  destructured parameters, whose properties
+   *                                  are documented on their own
+   */
+  protected readPatternType(name: ts.BindingName, type: ts.TypeNode): string {
+    return ts.isObjectBindingPattern(name) && ts.isTypeLiteralNode(type) ? 'Object' : this.readType(type);
+  }
 
-      return;
-    }
+  /**
+   * Retrieves the text of a type expression
+   *
+   * @param   {ts.TypeNode}  node  The type expression
+   *
+   * @return  {string}             The type as written, or in its JSDoc form
+   *                               when `jsdocTypes` is enabled
+   */
+  protected readType(node: ts.TypeNode): string {
+    return this.jsdocTypes ? TypeScript.formatType(node) : node.getText();
+  }
 
-    // Check if the current token represents a valid class name
-    if (this.expectName && symbols.type === SymbolKind.Class && this.isName(token.value)) {
-      symbols.name = token.value;
+  /**
+   * Reads the name, parameters and return type of a function
+   *
+   * @param  {ts.SignatureDeclaration}  node     The function
+   * @param  {ts.Node}                  name     The name of the function, such
+   *                                             as the variable it is assigned to
+   * @param  {Symbols}                  symbols  The parsed symbols
+   */
+  protected visitFunction(node: ts.SignatureDeclaration, name: ts.Node, symbols: Symbols): void {
+    symbols.type = SymbolKind.Function;
+    symbols.name = TypeScript.getName(name);
+    symbols.return.type = node.type ? this.readType(node.type) : '';
 
-      this.expectName = false;
-      this.done = true;
+    for (const param of node.parameters) {
+      this.visitParameter(param, symbols);
     }
   }
 
   /**
-   * @inheritdoc
+   * Reads the class member declared by the code
+   *
+   * Properties without modifiers, type or value are not considered
+   * declarations, as any lone word parses as such.
+   *
+   * @param  {ts.ClassElement}  member   The class member
+   * @param  {Symbols}          symbols  The parsed symbols
    */
-  protected parseFunction(token: Token, symbols: Symbols): void {
-    // Check if the token represents a function identifier
-    if (this.grammar.is(token.value, 'function')) {
-      symbols.type = SymbolKind.Function;
+  protected visitMember(member: ts.ClassElement, symbols: Symbols): void {
+    symbols.modifiers = TypeScript.getModifiers(member);
+
+    if (ts.isConstructorDeclaration(member)) {
+      this.visitFunction(member, undefined, symbols);
+
+      symbols.name = 'constructor';
+      symbols.return.type = 'void';
+    } else if (ts.isGetAccessor(member)) {
+      this.visitFunction(member, member.name, symbols);
+
+      symbols.modifiers.push('get');
+    } else if (ts.isSetAccessor(member)) {
+      this.visitFunction(member, member.name, symbols);
+
+      // Setters return nothing, whether or not the type is declared
+      symbols.modifiers.push('set');
+      symbols.return.type = 'void';
+    } else if (ts.isMethodDeclaration(member)) {
+      this.visitFunction(member, member.name, symbols);
+    } else if (ts.isPropertyDeclaration(member) && (member.modifiers || member.type || member.initializer)) {
+      this.visitValue(member.initializer, member.name, symbols, member.type);
+    }
+  }
 
-      this.expectName = true;
+  /**
+   * Reads a parameter, followed by the properties of a destructured one
+   *
+   * Destructured parameters are named after `destructuredName`, numbered
+   * from the second one on, as JSDoc documents them.
+   *
+   * @param  {ts.ParameterDeclaration}  node     The parameter declaration
+   * @param  {Symbols}                  symbols  The parsed symbols
+   */
+  protected visitParameter(node: ts.ParameterDeclaration, symbols: Symbols): void {
+    const { initializer, name, type } = node;
 
+    // The `this` parameter only declares the type of `this`
+    if (ts.isIdentifier(name) && name.text === 'this') {
       return;
     }
 
-    // If an opening parenthesis occurs, assume that this token represents a
-    // function
-    if (token.type.label === '(') {
-      symbols.type = SymbolKind.Function;
-      this.expectParameter = true;
+    const param: IParam = { name: ts.isIdentifier(name) ? name.text : this.getDestructuredName(node) };
+
+    if (node.questionToken) {
+      param.optional = true;
+    }
+
+    // Rest parameters are documented by the type of each argument
+    if (node.dotDotDotToken) {
+      param.rest = true;
     }
 
-    if (symbols.type === SymbolKind.Function) {
-      this.parseReturnType(token, symbols);
+    if (type) {
+      param.type = this.readPatternType(name, node.dotDotDotToken ? TypeScript.getElementType(type) : type);
+    }
 
-      // Check for a valid function name
-      if (this.expectName && this.isName(token.value) && !symbols.name) {
-        symbols.name = token.value;
+    if (initializer) {
+      param.val = initializer.getText();
+    }
 
-        this.expectName = false;
+    this.setInferredType(param);
 
-        return;
-      }
+    if (!ts.isIdentifier(name)) {
+      this.visitPattern(name, param, type, symbols);
+    } else {
+      symbols.addParameter(param);
     }
   }
 
   /**
-   * Parses generic parameter type tokens
+   * Reads a destructured parameter, followed by the properties it destructures
    *
-   * @param  {Token}    token    The token retrieved from acorn
-   * @param  {Symbols}  symbols  The symbols parsed from the tokens
+   * @param  {ts.BindingPattern}  pattern  The destructuring pattern
+   * @param  {IParam}             param    The parameter holding the properties
+   * @param  {ts.TypeNode}        type     The declared type of the parameter
+   * @param  {Symbols}            symbols  The parsed symbols
    */
-  protected parseGenericParameterType(token: Token, symbols: Symbols): void {
-    // Check if the next expected token should be a generic parameter type
-    if (this.expectGenericParameterType && token.value) {
-      // Retrieve the last parameter
-      const lastParam = symbols.getParameter(symbols.getLastParameterIndex());
-
-      if (lastParam) {
-        // Add the remainder of the generic parameter type
-        lastParam.type += `<${token.value}>`;
-      }
+  protected visitPattern(pattern: ts.BindingPattern, param: IParam, type: ts.TypeNode, symbols: Symbols): void {
+    if (!param.type) {
+      param.inferred = true;
+      param.type = ts.isObjectBindingPattern(pattern) ? 'Object' : 'Array';
+    }
 
-      this.expectGenericParameterType = false;
+    symbols.addParameter(param);
 
+    // Array elements have no name to document them by
+    if (ts.isArrayBindingPattern(pattern)) {
       return;
     }
 
-    // Check if a generic parameter type should be expected
-    if (token.type.label === '</>/<=/>=') {
-      this.expectGenericParameterType = true;
+    for (const element of pattern.elements) {
+      this.visitProperty(element, param.name, type, symbols);
+    }
+  }
+
+  /**
+   * Reads a property of a destructured parameter, named after its path
+   *
+   * Rest elements are left out, as the properties they hold are unknown.
+   *
+   * @param  {ts.BindingElement}  element  The destructured property
+   * @param  {string}             path     The name of the parameter holding
+   *                                       the property
+   * @param  {ts.TypeNode}        type     The declared type of the parameter
+   * @param  {Symbols}            symbols  The parsed symbols
+   */
+  protected visitProperty(element: ts.BindingElement, path: string, type: ts.TypeNode, symbols: Symbols): void {
+    const key = TypeScript.getName(element.propertyName || element.name);
 
+    if (!key || element.dotDotDotToken) {
       return;
     }
+
+    const memberType = TypeScript.getMemberType(type, key);
+
+    const property: IParam = { name: `${path}.${key}` };
+
+    if (memberType) {
+      property.type = this.readPatternType(element.name, memberType);
+    }
+
+    if (element.initializer) {
+      property.val = element.initializer.getText();
+    }
+
+    this.setInferredType(property);
+
+    if (ts.isIdentifier(element.name)) {
+      symbols.addParameter(property);
+    } else {
+      this.visitPattern(element.name, property, memberType, symbols);
+    }
   }
 
   /**
-   * Parses parameter name tokens
+   * Reads the symbol declared by a statement
+   *
+   * @param   {ts.Statement}  node     The statement
+   * @param   {Symbols}       symbols  The parsed symbols
    *
-   * @param  {Token}    token    The token retrieved from acorn
-   * @param  {Symbols}  symbols  The symbols parsed from the tokens
+   * @return  {boolean}                True if the statement declares a symbol
    */
-  protected parseParameterName(token: Token, symbols: Symbols): void {
-    // Ensure the next name is not suppose to be for a parameter type
-    const notType = !(this.expectParameterType || this.expectGenericParameterType);
-
-    // Check for a valid parameter name
-    if (this.expectParameter && this.isName(token.value) && notType) {
-      symbols.addParameter({
-        name: token.value,
-      });
+  protected visitStatement(node: ts.Statement, symbols: Symbols): boolean {
+    symbols.modifiers = TypeScript.getModifiers(node);
+
+    if (TypeScript.namedKinds[node.kind] !== undefined) {
+      symbols.type = TypeScript.namedKinds[node.kind];
+      symbols.name = TypeScript.getName((node as ts.DeclarationStatement).name);
+    } else if (ts.isFunctionDeclaration(node)) {
+      this.visitFunction(node, node.name, symbols);
+    } else if (ts.isVariableStatement(node)) {
+      const [declaration] = node.declarationList.declarations;
+
+      this.visitValue(declaration.initializer, declaration.name, symbols, declaration.type);
+    } else if (TypeScript.isAssignment(node)) {
+      this.visitValue(node.expression.right, node.expression.left, symbols);
+    } else if (ts.isExportAssignment(node)) {
+      symbols.modifiers.push('export', ...(node.isExportEquals ? [] : ['default']));
+
+      this.visitValue(node.expression, undefined, symbols);
+    } else {
+      return false;
+    }
 
-      return;
+    // Anonymous default exports are imported by the name `default`
+    if (!symbols.name && symbols.modifiers.includes('default')) {
+      symbols.name = 'default';
     }
+
+    return true;
   }
 
   /**
-   * Parses parameter type tokens
+   * Reads a named value, a function if the value is one
    *
-   * @param  {Token}    token    The token retrieved from acorn
-   * @param  {Symbols}  symbols  The symbols parsed from the tokens
+   * @param  {ts.Node}      value    The value, undefined if there is none
+   * @param  {ts.Node}      name     The name of the value
+   * @param  {Symbols}      symbols  The parsed symbols
+   * @param  {ts.TypeNode}  type     The declared type of the value
    */
-  protected parseParameterType(token: Token, symbols: Symbols): void {
-    // Check if a parameter type should be expected
-    if (token.type.label === ':' && !this.expectReturnType) {
-      this.expectParameterType = true;
+  protected visitValue(value: ts.Node, name: ts.Node, symbols: Symbols, type?: ts.TypeNode): void {
+    if (value && TypeScript.isFunction(value)) {
+      symbols.modifiers.push(...TypeScript.getModifiers(value));
+
+      this.visitFunction(value, name, symbols);
 
       return;
     }
 
-    if (this.expectParameterType && token.value) {
-      this.expectParameterType = false;
+    symbols.type = SymbolKind.Variable;
+    symbols.name = TypeScript.getName(name);
+    symbols.varType = type ? this.readType(type) : '';
+  }
 
-      // Retrieve the last parameter
-      const lastParam = symbols.getParameter(symbols.getLastParameterIndex());
+  /**
+   * Rewrites a type expression into its JSDoc form
+   *
+   * @example
+   * // `(string | null)[]` becomes `Array<?string>`
+   * function foo(bar: (string | null)[]) {
+   *
+   * @param   {ts.TypeNode}  node  The type expression
+   *
+   * @return  {string}             The JSDoc type
+   */
+  protected static formatType(node: ts.TypeNode): string {
+    if (ts.isParenthesizedTypeNode(node)) {
+      return TypeScript.formatType(node.type);
+    }
 
-      if (lastParam) {
-        // Add the type to the last parameter
-        lastParam.type = token.value;
-      }
+    if (ts.isUnionTypeNode(node)) {
+      return TypeScript.formatUnion(node);
+    }
 
-      return;
+    if (ts.isArrayTypeNode(node)) {
+      return `Array<${TypeScript.formatType(node.elementType)}>`;
     }
 
-    // Check if the parameter type is an array type
-    if (token.type.label === '[') {
-      // Retrieve the last parameter
-      const lastParam = symbols.getParameter(symbols.getLastParameterIndex());
+    if (ts.isTypeReferenceNode(node) && node.typeArguments) {
+      return `${node.typeName.getText()}<${node.typeArguments.map(TypeScript.formatType).join(', ')}>`;
+    }
 
-      if (lastParam) {
-        // Mark the parameter type as an array
-        lastParam.type += '[]';
-      }
+    if (ts.isFunctionTypeNode(node)) {
+      const params = node.parameters.map((param) => {
+        const type = param.type ? TypeScript.formatType(param.type) : '*';
 
-      return;
+        return (param.dotDotDotToken ? '...' : '') + type + (param.questionToken ? '=' : '');
+      });
+
+      return `function(${params.join(', ')}): ${TypeScript.formatType(node.type)}`;
     }
+
+    if (ts.isTypeLiteralNode(node)) {
+      return TypeScript.formatRecord(node);
+    }
+
+    // Tuples are arrays of mixed types
+    return ts.isTupleTypeNode(node) ? 'Array' : node.getText();
   }
 
   /**
-   * @inheritdoc
+   * Rewrites an object type into a JSDoc record type
+   *
+   * @param   {ts.TypeLiteralNode}  node  The object type
+   *
+   * @return  {string}                    The record type, `Object` if any
+   *                                      member is not a typed property
    */
-  protected parseParameters(token: Token, symbols: Symbols): void {
-    if (symbols.type === SymbolKind.Function) {
-      this.parseGenericParameterType(token, symbols);
-      this.parseParameterName(token, symbols);
-      this.parseParameterType(token, symbols);
-
-      if (token.type.label === ')') {
-        this.expectParameter = false;
+  protected static formatRecord(node: ts.TypeLiteralNode): string {
+    const members: string[] = [];
 
-        return;
+    for (const member of node.members) {
+      if (!ts.isPropertySignature(member) || !member.type) {
+        return 'Object';
       }
+
+      members.push(`${member.name.getText()}: ${TypeScript.formatType(member.type)}`);
     }
-  }
 
+    return `{${members.join(', ')}}`;
+  }
 
   /**
-   * Parses return type from Acorn token
+   * Rewrites a union type into a JSDoc union, prefixed by `?` if it includes
+   * `null`
+   *
+   * @param   {ts.UnionTypeNode}  node  The union type
    *
-   * @param  {Token}    token    The token to parse
-   * @param  {Symbols}  symbols  The parsed symbols
+   * @return  {string}                  The JSDoc union
    */
-  protected parseReturnType(token: Token, symbols: Symbols): void {
-    // Check if a generic return type should be expected
-    if (token.type.label === '</>/<=/>=') {
-      this.expectGenericReturnType = true;
+  protected static formatUnion(node: ts.UnionTypeNode): string {
+    const types = node.types.filter((type) => {
+      return !ts.isLiteralTypeNode(type) || type.literal.kind !== ts.SyntaxKind.NullKeyword;
+    }).map(TypeScript.formatType);
 
-      return;
+    if (!types.length) {
+      return 'null';
     }
 
-    // Add the remainder of the generic return type
-    if (this.expectGenericParameterType && token.value) {
-      symbols.return.type += `<${token.value}>`;
+    const union = types.length > 1 ? `(${types.join('|')})` : types[0];
 
-      this.expectGenericReturnType = false;
+    return types.length < node.types.length ? `?${union}` : union;
+  }
 
-      return;
+  /**
+   * Retrieves the type of the elements of an array type
+   *
+   * @param   {ts.TypeNode}  type  The array type, such as `string[]`
+   *
+   * @return  {ts.TypeNode}        The type of the elements, the type itself if
+   *                               it is not an array type
+   */
+  protected static getElementType(type: ts.TypeNode): ts.TypeNode {
+    if (ts.isArrayTypeNode(type)) {
+      return type.elementType;
     }
 
-    // Check if the return type is an array
-    if (token.type.label === '[') {
-      symbols.return.type += '[]';
-
-      return;
+    if (!ts.isTypeReferenceNode(type) || type.typeName.getText() !== 'Array') {
+      return type;
     }
 
-    // Check if a return type should be expected
-    if (token.type.label === ':' && !this.expectParameter) {
-      this.expectReturnType = true;
+    return type.typeArguments && type.typeArguments.length === 1 ? type.typeArguments[0] : type;
+  }
 
-      return;
+  /**
+   * Retrieves the type of a property of an object type
+   *
+   * @param   {ts.TypeNode}  type  The object type, such as `{ a: number }`
+   * @param   {string}       name  The name of the property
+   *
+   * @return  {ts.TypeNode}        The type of the property, undefined if the
+   *                               type is not an object type or the property
+   *                               has none
+   */
+  protected static getMemberType(type: ts.TypeNode, name: string): ts.TypeNode {
+    if (!type || !ts.isTypeLiteralNode(type)) {
+      return undefined;
     }
 
-    // Add the token as a return type if it is valid
-    if (this.expectReturnType && this.matchesIdentifier(token.value)) {
-      this.expectReturnType = false;
+    const member = type.members.find((item) => ts.isPropertySignature(item) && TypeScript.getName(item.name) === name);
 
-      symbols.return.type = token.value;
+    return member ? (member as ts.PropertySignature).type : undefined;
+  }
 
-      return;
-    }
+  /**
+   * Retrieves the modifiers of a declaration, such as `export` or `async`
+   *
+   * @param   {ts.Node}   node  The declaration
+   *
+   * @return  {string[]}        The modifiers as written
+   */
+  protected static getModifiers(node: ts.Node): string[] {
+    return (node.modifiers || []).map((modifier) => modifier.getText());
   }
 
   /**
-   * @inheritdoc
+   * Retrieves the name a node declares
+   *
+   * @param   {ts.Node}  node  The name node, such as an identifier or the
+   *                           property an assignment targets
+   *
+   * @return  {string}         The name, empty if the node has none
    */
-  protected parseVariable(token: Token, symbols: Symbols): void {
-    // Check if the token is a variable or modifier
-    const isVariable = this.grammar.is(token.value, 'variables');
-    const isModifier = this.grammar.is(token.value, 'modifiers');
+  protected static getName(node: ts.Node): string {
+    if (node && ts.isPropertyAccessExpression(node)) {
+      return node.name.text;
+    }
 
-    if (!symbols.type && (isVariable || isModifier)) {
-      symbols.type = SymbolKind.Variable;
+    // Computed names, such as `[Symbol.iterator]`, are documented as written
+    if (node && ts.isComputedPropertyName(node)) {
+      return node.getText();
+    }
 
-      this.expectName = true;
+    const isNamed = node && (ts.isIdentifier(node) || ts.isPrivateIdentifier(node) || ts.isStringLiteral(node));
 
-      return;
-    }
+    return isNamed ? (node as ts.Identifier).text : '';
+  }
 
-    // Expect the next token to be the name of an object literal
-    if (token.type.label === '.') {
-      symbols.type = SymbolKind.Variable;
+  /**
+   * Checks whether a statement assigns a value, such as
+   * `Foo.prototype.bar = function () {`
+   *
+   * @param   {ts.Statement}  node  The statement
+   *
+   * @return  {boolean}             True if the statement is an assignment
+   */
+  protected static isAssignment(
+    node: ts.Statement,
+  ): node is ts.ExpressionStatement & { expression: ts.AssignmentExpression<ts.EqualsToken> } {
+    return ts.isExpressionStatement(node)
+      && ts.isBinaryExpression(node.expression)
+      && node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken;
+  }
 
-      this.expectName = true;
+  /**
+   * Checks whether a node is a function or arrow function
+   *
+   * @param   {ts.Node}  node  The node
+   *
+   * @return  {boolean}        True if the node is a function
+   */
+  protected static isFunction(node: ts.Node): node is ts.SignatureDeclaration {
+    return ts.isFunctionExpression(node) || ts.isArrowFunction(node) || ts.isFunctionDeclaration(node);
+  }
 
-      return;
-    }
+  /**
+   * Parses code into a syntax tree with parent nodes set, so that the text of
+   * any node can be retrieved
+   *
+   * @param   {string}         code  The code to parse
+   *
+   * @return  {ts.SourceFile}        The syntax tree
+   */
+  protected static parse(code: string): ts.SourceFile {
+    return ts.createSourceFile('declaration.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  }
 
-    // Check if the token is valid variable name
-    const isVariableName = this.expectName && symbols.type === SymbolKind.Variable && this.isName(token.value);
-    // Check if the token is possibly a function name. This is typically used
-    // for JavaScript methods without modifiers.
-    const isPossibleFunctionName = !symbols.type &&  this.isName(token.value);
+  /**
+   * Parses code as the first property of an object literal, such as
+   * `foo: function (a) {`
+   *
+   * @param   {string}                 code  The code to parse
+   *
+   * @return  {ts.PropertyAssignment}        The property, undefined if the code
+   *                                         assigns none, or has modifiers of
+   *                                         class members, such as `public`
+   */
+  protected static parseProperty(code: string): ts.PropertyAssignment {
+    const [statement] = TypeScript.parse(`({\n${code}\n})`).statements;
 
-    if (isVariableName || isPossibleFunctionName) {
-      symbols.name = token.value;
+    const expression = (statement as ts.ExpressionStatement).expression as ts.ParenthesizedExpression;
 
-      this.expectName = false;
-    }
+    const [property] = (expression.expression as ts.ObjectLiteralExpression).properties;
+
+    return property && ts.isPropertyAssignment(property) && !property.modifiers ? property : undefined;
   }
 }
@@ -0,0 +1,199 @@
+import { Checker } from './checker';
+import { DocBlock } from './docblock';
+import { Parser } from './parser';
+import { IDeclaration, Scanner } from './scanner';
+
+/**
+ * Describes which documentation problems to look for
+ */
+export interface ILintOptions {
+  /**
+   * Whether or not to report undocumented private and protected members
+   */
+  includePrivate?: boolean;
+
+  /**
+   * Whether or not to only report undocumented declarations that are part of
+   * the public interface
+   */
+  publicOnly?: boolean;
+
+  /**
+   * Whether or not to report docblocks that no longer match their declaration
+   */
+  stale?: boolean;
+
+  /**
+   * Whether or not to report declarations without docblocks
+   */
+  undocumented?: boolean;
+}
+
+/**
+ * Describes a documentation problem found in a document
+ */
+export interface IViolation {
+  /**
+   * Code identifying the kind of problem, `undocumented` or one of the codes
+   * of `Checker`
+   */
+  code: string;
+
+  /**
+   * The column the problem ends on
+   */
+  end: number;
+
+  /**
+   * The line of the problem
+   */
+  line: number;
+
+  /**
+   * Describes the problem
+   */
+  message: string;
+
+  /**
+   * The column the problem starts on
+   */
+  start: number;
+
+  /**
+   * Name of the declaration the problem belongs to
+   */
+  symbol: string;
+}
+
+/**
+ * Finds undocumented declarations and stale docblocks in source code
+ */
+export class Linter {
+  /**
+   * Code identifying undocumented declarations, stale docblocks are identified
+   * by the codes of `Checker`
+   */
+  public static readonly undocumented = 'undocumented';
+
+  /**
+   * Language specific code parser
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the linter with the parser of the language to lint
+   *
+   * @param  {Parser}  parser  Code parser
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Finds the documentation problems of a document
+   *
+   * @param   {string[]}      lines    The lines of the document
+   * @param   {ILintOptions}  options  Which problems to look for
+   *
+   * @return  {IViolation[]}           The problems found, by line
+   */
+  public lint(lines: string[], options: ILintOptions): IViolation[] {
+    const scanner = new Scanner(this.parser);
+
+    const declarations = scanner.scan(lines);
+
+    const violations: IViolation[] = [];
+
+    if (options.undocumented) {
+      violations.push(...declarations
+        .filter((declaration) => !declaration.documented)
+        .filter((declaration) => !options.publicOnly || scanner.isPublic(declaration))
+        .filter((declaration) => options.includePrivate || !scanner.isPrivate(declaration))
+        .map((declaration) => this.getUndocumentedViolation(declaration, lines)));
+    }
+
+    if (options.stale) {
+      violations.push(...this.getStaleViolations(declarations, lines));
+    }
+
+    return violations.sort((a, b) => a.line - b.line || a.start - b.start);
+  }
+
+  /**
+   * Determines the columns of the name of a declaration
+   *
+   * @param   {IDeclaration}  declaration  The declaration
+   * @param   {string[]}      lines        The lines of the document
+   *
+   * @return  {number[]}                   The start and end columns of the
+   *                                       name, or of the whole line when the
+   *                                       name is on a following line
+   */
+  protected getNameColumns(declaration: IDeclaration, lines: string[]): number[] {
+    const { line, symbols } = declaration;
+
+    const text = lines[line];
+
+    const index = text.indexOf(symbols.name);
+
+    if (index < 0) {
+      return [text.search(/\S/), text.length];
+    }
+
+    return [index, index + symbols.name.length];
+  }
+
+  /**
+   * Compares the docblocks of the documented declarations with their symbols
+   *
+   * @param   {IDeclaration[]}  declarations  The declarations of the document
+   * @param   {string[]}        lines         The lines of the document
+   *
+   * @return  {IViolation[]}                  The stale docblock tags, spanning
+   *                                          the tag, or the name of the
+   *                                          declaration for missing tags
+   */
+  protected getStaleViolations(declarations: IDeclaration[], lines: string[]): IViolation[] {
+    const checker = new Checker(this.parser);
+
+    const violations: IViolation[] = [];
+
+    for (const declaration of declarations.filter((item) => item.block)) {
+      const block = DocBlock.parse(lines, declaration.block, this.parser.dialect.types);
+
+      for (const { code, message, tag } of checker.check(block, declaration.symbols)) {
+        let line = declaration.line;
+        let [start, end] = this.getNameColumns(declaration, lines);
+
+        if (tag) {
+          line = block.getTagLine(lines, tag);
+
+          [start, end] = [lines[line].search(/\S/), lines[line].length];
+        }
+
+        violations.push({ code, end, line, message, start, symbol: declaration.symbols.name });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Creates the violation of an undocumented declaration
+   *
+   * @param   {IDeclaration}  declaration  The undocumented declaration
+   * @param   {string[]}      lines        The lines of the document
+   *
+   * @return  {IViolation}                 The violation, spanning the name of
+   *                                       the declaration
+   */
+  protected getUndocumentedViolation(declaration: IDeclaration, lines: string[]): IViolation {
+    const { line, symbols } = declaration;
+
+    const [start, end] = this.getNameColumns(declaration, lines);
+
+    const message = `Missing docblock for ${Parser.kindNames[symbols.type]} ${symbols.name}`;
+
+    return { code: Linter.undocumented, end, line, message, start, symbol: symbols.name };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Placeholders rendered into generated docblocks
+ *
+ * Placeholders may reference variables such as `{name}`, which are replaced
+ * when the placeholder is retrieved.
+ */
+export interface IPlaceholders {
+  /**
+   * Detailed description of a symbol
+   */
+  description: string;
+
+  /**
+   * Detailed description when no symbol was parsed
+   */
+  emptyDescription: string;
+
+  /**
+   * Summary when no symbol was parsed
+   */
+  emptySummary: string;
+
+  /**
+   * Name of the file a symbol belongs to
+   */
+  fileName: string;
+
+  /**
+   * Description of a parameter
+   */
+  paramDescription: string;
+
+  /**
+   * Description of a return value
+   */
+  returnDescription: string;
+
+  /**
+   * Instructions for describing individual return values
+   */
+  retval: string;
+
+  /**
+   * Summary of a symbol
+   */
+  summary: string;
+
+  /**
+   * Title of a block when no symbol was parsed
+   */
+  title: string;
+
+  /**
+   * Type of a parameter, return value or variable
+   */
+  type: string;
+
+  /**
+   * Description of the variadic arguments of C functions, written `...`
+   */
+  variadicDescription: string;
+}
+
+/**
+ * Catalog of placeholders in the user's language
+ */
+export class Locale {
+  /**
+   * The locale used when no placeholders are available for a language
+   */
+  public static defaultLocale = 'en';
+
+  /**
+   * Placeholders available for each locale
+   */
+  public static packs: { [locale: string]: IPlaceholders } = {
+    en: {
+      description: '[{name} details]',
+      emptyDescription: '[details]',
+      emptySummary: '[description]',
+      fileName: '[file name]',
+      paramDescription: '[{name} description]',
+      returnDescription: '[return description]',
+      retval: 'Describe each return value when it needs an explanation.',
+      summary: '[{name} description]',
+      title: '[title]',
+      type: '[type]',
+      variadicDescription: '[variadic arguments description]',
+    },
+    ja: {
+      description: '[{name} 説明]',
+      emptyDescription: '[説明]',
+      emptySummary: '[概要]',
+      fileName: '[ファイル名]',
+      paramDescription: '[{name} の説明]',
+      returnDescription: '[戻り値の説明]',
+      retval: '返される価に関する説明が必要な時に、価毎に追記してください。',
+      summary: '[{name} 概要]',
+      title: '[タイトル]',
+      type: '[型]',
+      variadicDescription: '[可変長引数の説明]',
+    },
+  };
+
+  /**
+   * The locale the placeholders belong to
+   */
+  public locale: string;
+
+  /**
+   * The placeholders of the locale
+   */
+  public placeholders: IPlaceholders;
+
+  /**
+   * Sets up the placeholders for the provided locale
+   *
+   * @param  {string}  locale  A locale such as `en` or `ja-jp`
+   */
+  constructor(locale: string) {
+    this.locale = Locale.resolve(locale);
+    this.placeholders = Locale.packs[this.locale];
+  }
+
+  /**
+   * Retrieves a placeholder with its variables replaced
+   *
+   * @param   {string}  key        The placeholder to retrieve
+   * @param   {object}  variables  Values of the variables in the placeholder
+   *
+   * @return  {string}             The placeholder
+   */
+  public get(key: keyof IPlaceholders, variables: { [name: string]: string } = {}): string {
+    return this.placeholders[key].replace(/\{(\w+)\}/g, (match, name) => {
+      return Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match;
+    });
+  }
+
+  /**
+   * Determines which available locale best matches the provided locale
+   *
+   * @param   {string}  locale  A locale such as `en` or `ja-jp`
+   *
+   * @return  {string}          The available locale
+   */
+  public static resolve(locale: string): string {
+    const normalized = (locale || '').toLowerCase();
+
+    // Fall back to the language of regional locales
+    const candidates = [normalized, normalized.split('-')[0]];
+
+    const match = candidates.find((candidate) => {
+      return Object.prototype.hasOwnProperty.call(Locale.packs, candidate);
+    });
+
+    return match || Locale.defaultLocale;
+  }
+}
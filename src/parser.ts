@@ -1,20 +1,54 @@
 import { Token, tokenizer } from 'acorn';
-import { Selection, SnippetString, SymbolKind, TextEditor, window, workspace } from 'vscode';
 
+import { IConfiguration } from './configuration';
+import { Dialect } from './dialect';
 import { Grammar } from './grammar';
+import { Locale } from './locale';
 import { IOptions, Settings } from './settings';
-import { Symbols } from './symbols';
+import { Snippet } from './snippet';
+import { IParam, Symbols, SymbolKind } from './symbols';
+import { ITemplateContext, Template } from './template';
+import { Variables } from './variables';
+import { Width } from './width';
 
 /**
  * Initial Class for parsing Doc Block comments
  */
 export abstract class Parser {
+  /**
+   * Names of the symbol kinds templates can be defined for
+   *
+   * @var {object}
+   */
+  public static kindNames: { [kind: number]: string } = {
+    [SymbolKind.Class]: 'class',
+    [SymbolKind.File]: 'file',
+    [SymbolKind.Function]: 'function',
+    [SymbolKind.Namespace]: 'namespace',
+    [SymbolKind.Variable]: 'variable',
+  };
+
+  /**
+   * The maximum number of lines read when searching for the end of a code
+   * signature
+   *
+   * @var {number}
+   */
+  public static maxSignatureLines = 20;
+
   /**
    * Indicates whether or not to align tags in the block comments
    *
    * @var {boolean}
    */
-  public alignTags: boolean;
+  public alignTags = true;
+
+  /**
+   * The code being tokenized, which the offsets of the tokens refer to
+   *
+   * @var {string}
+   */
+  public code = '';
 
   /**
    * The desired number of docblock columns defined by
@@ -22,14 +56,51 @@ export abstract class Parser {
    *
    * @var {number}
    */
-  public columnCount: number;
+  public columnCount = 2;
+
+  /**
+   * Format of the `date` variable, such as `YYYY-MM-DD`
+   *
+   * @var {string}
+   */
+  public dateFormat = 'YYYY-MM-DD';
+
+  /**
+   * The dialect used when the user did not choose one for the language
+   *
+   * @var {string}
+   */
+  public defaultDialect = 'doxygen';
 
   /**
    * Indicates whether or not the return tag should be always rendered
    *
    * @var {boolean}
    */
-  public defaultReturnTag: boolean;
+  public defaultReturnTag = true;
+
+  /**
+   * Indicates whether or not to render the default values of parameters in
+   * their tags, such as `[limit=10]` in JSDoc
+   *
+   * @var {boolean}
+   */
+  public defaultValues = false;
+
+  /**
+   * Name of destructured parameters, which JSDoc documents along with their
+   * properties, such as `options.title`
+   *
+   * @var {string}
+   */
+  public destructuredName = 'options';
+
+  /**
+   * Dialects chosen by the user, keyed by language ID
+   *
+   * @var {object}
+   */
+  public dialects: { [languageId: string]: string } = {};
 
   /**
    * Indicates `getSymbols()` should quit parsing tokens
@@ -38,6 +109,21 @@ export abstract class Parser {
    */
   public done = false;
 
+  /**
+   * Indicates that the next `Token` belongs to the default value of the last
+   * parameter
+   *
+   * @var {boolean}
+   */
+  public expectDefaultValue = false;
+
+  /**
+   * Indicates modifiers may still precede the symbol
+   *
+   * @var {boolean}
+   */
+  public expectModifier = true;
+
   /**
    * Indicates that the next acorn `Token` should represent a `Symbol` name
    *
@@ -66,6 +152,21 @@ export abstract class Parser {
    */
   public expectReturnType = false;
 
+  /**
+   * Extra tags rendered for each symbol kind, optionally prefixed by a
+   * language ID such as `php.function`
+   *
+   * @var {object}
+   */
+  public extraTags: { [kind: string]: string[] } = {};
+
+  /**
+   * Path of the document being documented, empty if it was never saved
+   *
+   * @var {string}
+   */
+  public fileName = '';
+
   /**
    * The current languages grammar settings
    *
@@ -73,12 +174,49 @@ export abstract class Parser {
    */
   public grammar: Grammar;
 
+  /**
+   * Indicates whether or not to rewrite type expressions into their JSDoc
+   * forms, such as `?string` for `string | null`
+   *
+   * @var {boolean}
+   */
+  public jsdocTypes = false;
+
+  /**
+   * The ID of the language being parsed, such as `php`
+   *
+   * @var {string}
+   */
+  public languageId = '';
+
+  /**
+   * Types inferred from the default values of parameters, paired with the
+   * expression the literal values of the type match
+   *
+   * @var {Array}
+   */
+  public literalTypes: Array<[RegExp, string]> = [];
+
+  /**
+   * Catalog of placeholders in the configured language
+   *
+   * @var {Locale}
+   */
+  public locale = new Locale('');
+
   /**
    * Indicates whether or not to add new lines between tags
    *
    * @var {boolean}
    */
-  public newLinesBetweenTags: boolean;
+  public newLinesBetweenTags = true;
+
+  /**
+   * Code that must precede the file header, such as `<?php`
+   *
+   * @var {string}
+   */
+  public preamble = '';
 
   /**
    * Language specific parser settings
@@ -92,70 +230,103 @@ export abstract class Parser {
    *
    * @var {string}
    */
-  public style: string;
+  public style = 'default';
 
   /**
-   * Placeholder for when type (parameter or return) isn't present
+   * User defined templates keyed by symbol kind, optionally prefixed by a
+   * language ID such as `php.function`
    *
-   * @var {string}
+   * @var {object}
    */
-  public typePlaceholder = '[type]';
+  public templates: { [kind: string]: string | string[] } = {};
+
+  /**
+   * Number of brackets left open within the default value being parsed
+   *
+   * @var {number}
+   */
+  public valueDepth = 0;
+
+  /**
+   * Offset of the code where the default value being parsed begins
+   *
+   * @var {number}
+   */
+  public valueStart = 0;
 
   constructor(options: IOptions) {
     // Get instance of language settings
     this.settings = new Settings(options);
     this.grammar = this.settings.grammar;
+  }
+
+  /**
+   * The tag conventions used for the language being parsed
+   *
+   * @return  {Dialect}  The dialect chosen for the language
+   */
+  public get dialect(): Dialect {
+    const { languageId } = this;
+
+    const name = Object.prototype.hasOwnProperty.call(this.dialects, languageId)
+      ? this.dialects[languageId]
+      : this.defaultDialect;
+
+    return new Dialect(name);
+  }
 
-    // Retrieve the extensions configuration from this workspace instance and
-    // cache it's values.
-    const config = workspace.getConfiguration('vs-docblockr');
-    this.alignTags = config.get('alignTags');
-    this.newLinesBetweenTags = config.get('newLinesBetweenTags');
-    this.columnCount = config.get('columnSpacing');
-    this.style = config.get('commentStyle');
-    this.defaultReturnTag = config.get('defaultReturnTag');
+  /**
+   * Placeholder for when type (parameter or return) isn't present
+   *
+   * @return  {string}  The type placeholder
+   */
+  public get typePlaceholder(): string {
+    return this.locale.get('type');
   }
 
   /**
    * Renders parameter tag template for docblock
    *
-   * @param   {SnippetString}  snippet    The snippet to process
-   * @param   {string}         typeSpace  Spaces between parameter's tag and
-   *                                      type
-   * @param   {string}         type       The parameter's type
-   * @param   {string}         nameSpace  Spaces between parameter's type and
-   *                                      name
-   * @param   {string}         name       The parameter's name binding
-   * @param   {string}         descSpace  Spaces between parameter's name and
-   *                                      description
-   * @param   {string}         desc       The parameter's description
+   * @param   {Snippet}  snippet    The snippet to process
+   * @param   {string}   typeSpace  Spaces between parameter's tag and
+   *                                type
+   * @param   {string}   type       The parameter's type
+   * @param   {string}   nameSpace  Spaces between parameter's type and
+   *                                name
+   * @param   {string}   name       The parameter's name binding
+   * @param   {string}   descSpace  Spaces between parameter's name and
+   *                                description
+   * @param   {string}   desc       The parameter's description
+   * @param   {string}   direction  The parameter's direction following the
+   *                                tag, such as `[in,out]`
    */
   public addParamTag(
-    snippet: SnippetString,
+    snippet: Snippet,
     typeSpace: string,
     type: string,
     nameSpace: string,
     name: string,
     descSpace: string,
     desc: string,
+    direction = '',
   ): void {
     if (this.style === 'drupal') {
+      snippet.appendText(`${this.settings.separator}@param${direction} `);
+
+      this.appendType(snippet, type, ' ');
+
       snippet
-        .appendText(this.settings.separator)
-        .appendText('@param ')
-        .appendPlaceholder(type)
-        .appendText(' ')
         .appendText(name)
         .appendText(this.settings.eos)
         .appendText(this.settings.separator)
         .appendText('  ')
         .appendPlaceholder(desc);
     } else {
+      snippet.appendText(`${this.settings.separator}@param${direction}${typeSpace}`);
+
+      this.appendType(snippet, type, nameSpace);
+
       snippet
-        .appendText(this.settings.separator)
-        .appendText(`@param${typeSpace}`)
-        .appendPlaceholder(type)
-        .appendText(nameSpace)
         .appendText(name)
         .appendText(descSpace)
         .appendPlaceholder(desc);
@@ -165,43 +336,79 @@ export abstract class Parser {
   /**
    * Renders return tag with return type and computed spacing
    *
-   * @param   {SnippetString}  snippet      The snippet string add the tag to
-   * @param   {string}         typeSpacing  The spacing before the return type
-   * @param   {string}         type         The return tag type
-   * @param   {string}         spacing      Spacing between type and description
-   * @param   {string}         desc         The return description
+   * @param   {Snippet}  snippet      The snippet string add the tag to
+   * @param   {string}   typeSpacing  The spacing before the return type
+   * @param   {string}   type         The return tag type
+   * @param   {string}   spacing      Spacing between type and description
+   * @param   {string}   desc         The return description
    */
-  public addReturnTag(snippet: SnippetString, typeSpacing: string, type: string, spacing: string, desc: string): void {
+  public addReturnTag(snippet: Snippet, typeSpacing: string, type: string, spacing: string, desc: string): void {
+    const tag = `@${this.dialect.returnTag}`;
+
     if (this.style === 'drupal') {
+      snippet.appendText(`${this.settings.separator}${tag} `);
+
+      this.appendType(snippet, type, '');
+
       snippet
-        .appendText(this.settings.separator)
-        .appendText('@return ')
-        .appendPlaceholder(type)
         .appendText(`${this.settings.eos}${this.settings.separator}  `)
         .appendPlaceholder(desc);
     } else {
-      snippet
-        .appendText(this.settings.separator)
-        .appendText('@return')
-        .appendText(typeSpacing)
-        .appendPlaceholder(type)
-        .appendText(spacing)
-        .appendPlaceholder(desc);
+      snippet.appendText(this.settings.separator + tag + typeSpacing);
+
+      if (this.dialect.types) {
+        this.appendType(snippet, type, spacing);
+      } else {
+        snippet.appendText(spacing);
+      }
+
+      snippet.appendPlaceholder(desc);
     }
   }
 
-
   /**
    * Renders a variable tag
    *
-   * @param   {SnippetString}  snippet  The snippet to apply the tag to
-   * @param   {string}         type     The variable's type
+   * @param   {Snippet}  snippet  The snippet to apply the tag to
+   * @param   {string}   type     The variable's type
    */
-  public addVarTag(snippet: SnippetString, type: string): void {
-    snippet
-      // .appendText(`${this.settings.separator}@var `)
-      .appendText(`${this.settings.separator}< @enum `)
-      .appendPlaceholder(type);
+  public addVarTag(snippet: Snippet, type: string): void {
+    snippet.appendText(`${this.settings.separator}${this.dialect.varTag} `);
+
+    this.appendType(snippet, type, '');
+  }
+
+  /**
+   * Applies the provided configuration, such as the extension's settings
+   *
+   * @param  {IConfiguration}  config  The configuration to apply
+   */
+  public configure(config: IConfiguration): void {
+    const values = {
+      alignTags: config.alignTags,
+      columnCount: config.columnSpacing,
+      dateFormat: config.dateFormat,
+      defaultReturnTag: config.defaultReturnTag,
+      defaultValues: config.defaultValues,
+      destructuredName: config.destructuredName,
+      dialects: config.dialects,
+      extraTags: config.extraTags,
+      jsdocTypes: config.jsdocTypes,
+      newLinesBetweenTags: config.newLinesBetweenTags,
+      style: config.commentStyle,
+      templates: config.templates,
+    };
+
+    // Settings that were left out keep their defaults
+    for (const key of Object.keys(values)) {
+      if (values[key] !== undefined && values[key] !== null && values[key] !== '') {
+        this[key] = values[key];
+      }
+    }
+
+    if (config.locale) {
+      this.locale = new Locale(config.locale);
+    }
   }
 
   /**
@@ -223,6 +430,33 @@ export abstract class Parser {
     return Array(count).join(' ');
   }
 
+  /**
+   * Retrieves the code signature beginning at the provided line
+   *
+   * @param   {string[]}  lines  The lines to read from
+   * @param   {number}    line   The line the signature begins on
+   *
+   * @return  {string}           The signature code
+   */
+  public getSignatureFromLines(lines: string[], line: number): string {
+    const signature: string[] = [];
+
+    for (let i = line; i < lines.length && signature.length < Parser.maxSignatureLines; i++) {
+      // Prevent potential lexer issues by trimming surrounding whitespace
+      signature.push(lines[i].trim());
+
+      const code = signature.join('\n');
+
+      if (this.isSignatureComplete(code)) {
+        return code;
+      }
+    }
+
+    // Reaching the end of the lines means the remaining code is all there is
+    // to parse, otherwise fall back to the first line alone
+    return line + signature.length >= lines.length ? signature.join('\n') : signature[0];
+  }
+
   /**
    * Retrieves a symbol defined for the provided code snippet
    *
@@ -238,6 +472,12 @@ export abstract class Parser {
         break;
       }
 
+      // Tokens of default values could be mistaken for parameters
+      if (this.parseDefaultValue(token, symbols)) {
+        continue;
+      }
+
+      this.parseModifier(token, symbols);
       this.parseNamespace(token, symbols);
       this.parseClass(token, symbols);
       this.parseFunction(token, symbols);
@@ -250,6 +490,22 @@ export abstract class Parser {
     return symbols;
   }
 
+  /**
+   * Retrieves the template for the provided symbol kind
+   *
+   * Templates defined for the parser's language take precedence over templates
+   * defined for all languages.
+   *
+   * @param   {SymbolKind}  kind  The kind of symbol to render
+   *
+   * @return  {Template}          The template to render
+   */
+  public getTemplate(kind: SymbolKind): Template {
+    const template = this.getKindSetting(this.templates, kind);
+
+    return new Template(template || this.getDefaultTemplate());
+  }
+
   /**
    * Retrieve a list of Acorn tokens from a code snippet.
    *
@@ -261,90 +517,105 @@ export abstract class Parser {
    *                          character
    */
   public getTokens(code: string): Token[] {
+    this.code = code;
+
     return [...tokenizer(code)];
   }
 
   /**
-   * Parse language tokens from code string and send tokens to docblock render
+   * Checks whether the provided code contains a complete signature
    *
-   * @param   {TextDocument}   editor  The content of the editor
+   * A signature is considered complete once its parentheses are balanced and,
+   * when it has a parameter list, it is followed by an opening brace, a
+   * semicolon or an arrow.
    *
-   * @return  {SnippetString}          The rendered docblock string
+   * @param   {string}   code  The code to check
+   *
+   * @return  {boolean}        True if the signature is complete
    */
-  public init(editor: TextEditor): SnippetString {
-    const { document } = editor;
-    // Refers to user's current cursor position
-    const { selection } = window.activeTextEditor;
-    // Determine numerical position of line below user's current position
-    // This is assumed to be the code we want to tokenize
-    const nextLine = document.lineAt(selection.active.line + 1);
-    // Prevent potential lexer issues by trimming trailing whitespace
-    const nextLineTrimmed = nextLine.text.trim();
+  public isSignatureComplete(code: string): boolean {
+    let tokens: Token[];
+
     try {
-      // Attempt to get token information needed for render doc string
-      const symbols = this.getSymbols(nextLineTrimmed);
-      return this.renderBlock(symbols);
+      tokens = this.getTokens(code);
     } catch (error) {
-      if (error instanceof Error) {
-        window.showErrorMessage(error.message);
-      }
+      // Unterminated strings or comments can only be completed by the lines
+      // that follow
+      return false;
+    }
 
-      // If no valid token was created, create an empty doc block string
-      return this.renderEmptyBlock();
+    let depth = 0;
+    let hasParameters = false;
+    let hasTerminator = false;
+
+    for (const token of tokens) {
+      const { label } = token.type;
+
+      if (label === '(') {
+        depth++;
+        hasParameters = true;
+      } else if (label === ')') {
+        depth--;
+      } else if (depth === 0 && ['{', ';', '=>'].includes(label)) {
+        hasTerminator = true;
+      }
     }
+
+    return depth <= 0 && (hasTerminator || !hasParameters);
   }
 
   /**
    * Removes trailing whitespace from a snippet string
    *
-   * @param   {SnippetString}  snippetString  The snippet string to format
+   * @param   {Snippet}  snippetString  The snippet string to format
    *
-   * @return  {SnippetString}                 The formatted snippet string
+   * @return  {Snippet}                 The formatted snippet string
    */
-  public static removeTrailingWhiteSpace(snippetString: SnippetString): SnippetString {
-    return new SnippetString(snippetString.value.replace(/\s$/gm, ''));
+  public static removeTrailingWhiteSpace(snippetString: Snippet): Snippet {
+    return new Snippet(snippetString.value.replace(/\s$/gm, ''));
+  }
+
+  /**
+   * Checks whether a function is documented by a return tag of the provided
+   * type
+   *
+   * Functions returning `void` need none, though tags documenting `void` are
+   * accurate. Constructors and setters never return a value.
+   *
+   * @param   {Symbols}  symbols  Tokenized code
+   * @param   {string}   type     The type the return tag documents, if any
+   *
+   * @return  {boolean}           True if the return tag is needed
+   */
+  public needsReturnTag(symbols: Symbols, type: string): boolean {
+    if (symbols.type !== SymbolKind.Function) {
+      return false;
+    }
+
+    if (symbols.return.type !== 'void') {
+      return true;
+    }
+
+    return symbols.name !== 'constructor' && !symbols.modifiers.includes('set') && type === 'void';
   }
 
   /**
    * Renders docblock string based on tokenized object
    *
-   * @param   {Symbols}        tokens  Tokenized docblock object
+   * @param   {Symbols}  tokens  Tokenized docblock object
    *
-   * @return  {SnippetString}          Generated docblock string
+   * @return  {Snippet}          Generated docblock string
    */
-  public renderBlock(tokens: Symbols): SnippetString {
+  public renderBlock(tokens: Symbols): Snippet {
     if (!tokens.name || !tokens.type) {
       return this.renderEmptyBlock();
     }
 
-    const { commentClose, commentOpen, eos, separator } = this.settings;
-
-    const snippet = new SnippetString(commentOpen + eos);
-    const isScss = (this.grammar.namespace.length == 0)? true : false;
-    if(isScss) {
-      snippet
-        .appendText(separator)
-        .appendPlaceholder(`[${tokens.name} description]`)
-        .appendText(eos)
-        .appendText(separator)
-        .appendPlaceholder(`@group [file name]`);
-    } else {
-      snippet
-        .appendText(separator)
-        .appendPlaceholder(`@brief [${tokens.name} 概要]`)
-        .appendText(eos)
-        .appendText(separator)
-        .appendPlaceholder(`@details [${tokens.name} 説明]`);
-    }
+    const { commentClose, commentOpen, eos } = this.settings;
 
-    this.renderParamTags(tokens, snippet);
-    this.renderReturnTag(tokens, snippet);
-    this.renderVarTag(tokens, snippet);
+    const snippet = new Snippet(commentOpen);
 
-    snippet
-      .appendText(eos)
-      .appendText(separator)
-      .appendPlaceholder(`@todo`);
+    this.renderTemplate(this.getTemplate(tokens.type), tokens, snippet);
 
     snippet.appendText(eos + commentClose);
 
@@ -354,111 +625,113 @@ export abstract class Parser {
   /**
    * Generates an empty doc block string when nothing was successfully parsed
    *
-   * @return  {SnippetString}  Empty doc block string
+   * @return  {Snippet}  Empty doc block string
    */
-  public renderEmptyBlock(): SnippetString {
+  public renderEmptyBlock(): Snippet {
     const { commentClose, commentOpen, eos, separator } = this.settings;
 
-    if(this.grammar.namespace.length == 0) {
-      // scss
-      return new SnippetString()
-        .appendText(commentOpen)
-        .appendText(eos)
-        .appendText(separator)
-        .appendPlaceholder('[タイトル]')
-        .appendText(eos)
-        .appendText(separator)
-        .appendPlaceholder('@group [ファイル名]')
-        .appendText(eos)
-        .appendText(commentClose);
-    } else {
-      // etc
-      return new SnippetString()
-        .appendText(commentOpen)
-        .appendText(eos)
-        .appendText(separator)
-        .appendPlaceholder('@brief [概要]')
-        .appendText(eos)
-        .appendText(separator)
-        .appendPlaceholder('@details [説明]')
-        .appendText(eos)
-        .appendText(commentClose);
-    }
+    const snippet = new Snippet(commentOpen);
+
+    new Template(this.dialect.emptyHeader).render(snippet, {
+      eos,
+      sections: {},
+      separator,
+      variables: {
+        description: this.locale.get('emptyDescription'),
+        fileName: this.locale.get('fileName'),
+        summary: this.locale.get('emptySummary'),
+        title: this.locale.get('title'),
+      },
+    });
+
+    return snippet.appendText(eos + commentClose);
   }
 
   /**
-   * Renders a docblock string from the provided selection
+   * Renders the comment describing the document at the top of a file
    *
-   * @param   {Selection}     selection  The current selection in the editor
-   *
-   * @return  {SnippetString}            The rendered docblock in a snippet string
+   * @return  {Snippet}  The file header
    */
-  public renderFromSelection(selection: Selection): SnippetString {
-    // Retrieve the code from the selection
-    const { document } = window.activeTextEditor;
-    const code = document.getText(selection);
+  public renderFileHeader(): Snippet {
+    const { commentClose, commentOpen, eos } = this.settings;
+
+    const symbols = new Symbols();
 
-    // Generate symbols from the code string
-    const symbols = this.getSymbols(code);
+    symbols.type = SymbolKind.File;
 
-    return this.renderBlock(symbols);
+    const template = this.getKindSetting(this.templates, SymbolKind.File) || this.dialect.fileHeader;
+
+    const snippet = new Snippet(commentOpen);
+
+    this.renderTemplate(new Template(template), symbols, snippet);
+
+    snippet.appendText(eos + commentClose);
+
+    return Parser.removeTrailingWhiteSpace(snippet);
   }
 
   /**
-   * Renders parameter tags for docblock
+   * Renders a parameter tag, aligned with the other parameters of the symbol
    *
-   * @param   {Symbols}        tokens       Tokenized code
-   * @param   {SnippetString}  snippet      List of docblock lines
+   * @param   {Symbols}  tokens   Tokenized code
+   * @param   {IParam}   param    The parameter to render, one of the tokens'
+   *                              parameters
+   * @param   {Snippet}  snippet  List of docblock lines
    */
-  public renderParamTags(tokens: Symbols, snippet: SnippetString): void {
-    // Parameter tags shouldn't be needed if no parameter tokens are available,
-    // or if the code is a class property or variable
-    if (tokens.params.length && tokens.type !== SymbolKind.Variable) {
-      if (this.newLinesBetweenTags) {
-        // Apply empty line
-        snippet.appendText(this.settings.eos + this.settings.separator.trimRight());
-      }
+  public renderParamTag(tokens: Symbols, param: IParam, snippet: Snippet): void {
+    // Determine if any parameters contain defined type information for
+    // calculating type spacing
+    const hasType = tokens.params.some((item) => Object.prototype.hasOwnProperty.call(item, 'type'));
 
-      // Determine if any parameters contain defined type information for
-      // calculating type spacing
-      const hasType = tokens.params.some((param) => Object.prototype.hasOwnProperty.call(param, 'type'));
+    const diff = this.maxParams(tokens, 'name') - Width.of(this.getParamName(param));
 
-      // Get maximum parameter type size
-      const typeDiff = this.maxParams(tokens, 'type');
+    const descriptionSpacing = this.generateSpacing((this.columnCount + 1) + diff);
 
-      // Iterator over list of parameters
-      for (const param of tokens.params) {
-        const noType = this.typePlaceholder;
-
-        const diff = this.maxParams(tokens, 'name') - param.name.length;
+    const type = this.getParamType(param);
 
-        const descriptionSpacing = this.generateSpacing((this.columnCount + 1) + diff);
+    // Ensure there is at least one space between type and parameter name
+    // in docblock
+    let nameDiff = 1;
+    // Check if any params have a defined type, if no the type space
+    // difference should default to 1
+    if (hasType) {
+      // Calculate difference between longest type and current type
+      nameDiff = this.maxParams(tokens, 'type') - Width.of(type) + 1;
+    }
 
-        // Use the type placeholder if no parameter type was provided
-        const type = Object.prototype.hasOwnProperty.call(param, 'type') ? param.type : noType;
+    const nameSpacing = this.generateSpacing(this.columnCount + nameDiff);
 
-        // Ensure there is at least one space between type and parameter name
-        // in docblock
-        let nameDiff = 1;
-        // Check if any params have a defined type, if no the type space
-        // difference should default to 1
-        if (hasType) {
-          // Calculate difference between longest type and current type
-          nameDiff = typeDiff - type.length + 1;
-        }
+    const direction = this.getParamDirection(param);
 
-        const nameSpacing = this.generateSpacing(this.columnCount + nameDiff);
+    // Types line up past the widest direction of the parameter tags
+    const typeSpacing = this.generateSpacing(this.columnCount + 2 + this.getDirectionWidth(tokens) - direction.length);
 
-        const typeSpacing = this.generateSpacing(this.columnCount + 2);
+    const name = this.getParamName(param);
 
-        const name = param.name;
+    // Use the existing description if one was provided, C varargs have no
+    // name to describe
+    const desc = param.description || (param.name === '...'
+      ? this.locale.get('variadicDescription')
+      : this.locale.get('paramDescription', { name: param.name }));
+    // Append param to docblock
+    this.addParamTag(snippet, typeSpacing, type, nameSpacing, name, descriptionSpacing, desc, direction);
+  }
 
+  /**
+   * Renders parameter tags for docblock
+   *
+   * @param   {Symbols}  tokens   Tokenized code
+   * @param   {Snippet}  snippet  List of docblock lines
+   */
+  public renderParamTags(tokens: Symbols, snippet: Snippet): void {
+    // Parameter tags shouldn't be needed if no parameter tokens are available,
+    // or if the code is a class property or variable
+    if (tokens.params.length && tokens.type !== SymbolKind.Variable) {
+      // Iterator over list of parameters
+      for (const param of tokens.params) {
         snippet.appendText(this.settings.eos);
 
-        // Description shortcut
-        const desc = ` [${name} description]`;
-        // Append param to docblock
-        this.addParamTag(snippet, typeSpacing, type, nameSpacing, name, descriptionSpacing, desc);
+        this.renderParamTag(tokens, param, snippet);
       }
     }
   }
@@ -466,75 +739,309 @@ export abstract class Parser {
   /**
    * Render return tag for docblock
    *
-   * @param   {Symbols}        symbols    Tokenized code
-   * @param   {SnippetString}  snippet    List of docblock lines
+   * @param   {Symbols}  symbols  Tokenized code
+   * @param   {Snippet}  snippet  List of docblock lines
    */
-  public renderReturnTag(symbols: Symbols, snippet: SnippetString): void {
+  public renderReturnTag(symbols: Symbols, snippet: Snippet): void {
     // Determine whether or not to display the return type by default
     const defaultReturnTag = this.defaultReturnTag;
-    // Check if return section should be displayed
-    if (defaultReturnTag && symbols.type === SymbolKind.Function) {
+    // Check if return section should be displayed, typeless dialects cannot
+    // note that the function returns `void`
+    const documented = this.dialect.types ? symbols.return.type : undefined;
+
+    if (defaultReturnTag && this.needsReturnTag(symbols, documented)) {
       let type = this.typePlaceholder;
       // Check if a return type was provided
       if (symbols.return.type) {
         type = symbols.return.type;
       }
 
-      const typeSpacing = this.generateSpacing(this.columnCount + 1);
+      const { columnCount } = this;
+
+      // Align the return type with the parameter types
+      const typeSpacing = this.generateSpacing(
+        columnCount + 7 - this.dialect.returnTag.length + this.getDirectionWidth(symbols),
+      );
 
-      if (this.newLinesBetweenTags) {
-        // Empty line
-        snippet.appendText(this.settings.eos + this.settings.separator.trimRight());
-      }
       snippet.appendText(this.settings.eos);
 
       // Get maximum param size
       const diff = this.maxParams(symbols, 'name');
       const typeDiff = this.maxParams(symbols, 'type');
 
-      const { columnCount } = this;
-
       // Calculate number of spaces between return type and description
-      const spacingTotal = typeDiff - type.length + columnCount + diff + columnCount + 1;
+      const spacingTotal = this.dialect.types
+        ? typeDiff - Width.of(type) + columnCount + diff + columnCount + 1
+        : diff && diff + columnCount + 1;
 
       // Determine the spacing between return type and description
       const spacing = this.generateSpacing(spacingTotal);
 
       // Format return description to be tab-able
-      const description = '[return description]';
+      const description = symbols.return.description || this.locale.get('returnDescription');
 
       this.addReturnTag(snippet, typeSpacing, type, spacing, description);
-      if(this.grammar.namespace.length > 0) {
-        snippet.appendText(this.settings.eos);
-        snippet.appendText(this.settings.separator);
-        snippet.appendText('@retval 返される価に関する説明が必要な時に、価毎に追記してください。');
-      }
+    }
+  }
 
+  /**
+   * Render retval tag for docblock
+   *
+   * @param   {Symbols}  symbols  Tokenized code
+   * @param   {Snippet}  snippet  List of docblock lines
+   */
+  public renderRetvalTag(symbols: Symbols, snippet: Snippet): void {
+    // The retval tag accompanies the return tag
+    if (this.defaultReturnTag && this.needsReturnTag(symbols, symbols.return.type) && this.dialect.retval) {
       snippet.appendText(this.settings.eos);
+      snippet.appendText(this.settings.separator);
+      snippet.appendText(`@retval ${this.locale.get('retval')}`);
     }
   }
 
+  /**
+   * Renders a template to the provided snippet
+   *
+   * @param  {Template}  template  The template to render
+   * @param  {Symbols}   symbols   Tokenized code
+   * @param  {Snippet}   snippet   The snippet to render to
+   */
+  public renderTemplate(template: Template, symbols: Symbols, snippet: Snippet): void {
+    template.render(snippet, this.getTemplateContext(symbols));
+  }
+
   /**
    * Render var tag for docblock
    *
-   * @param   {Symbols}        symbols    Tokenized code
-   * @param   {SnippetString}  snippet    List of docblock lines
+   * @param   {Symbols}  symbols  Tokenized code
+   * @param   {Snippet}  snippet  List of docblock lines
    */
-  public renderVarTag(symbols: Symbols, snippet: SnippetString): void {
+  public renderVarTag(symbols: Symbols, snippet: Snippet): void {
     // Add special case of variable blocks
-    if (symbols.type === SymbolKind.Variable) {
-      if (this.newLinesBetweenTags) {
-        // Empty line
-        snippet.appendText(this.settings.eos + this.settings.separator);
-      }
+    if (symbols.type === SymbolKind.Variable && this.dialect.varTag) {
       snippet.appendText(this.settings.eos);
       // Format type to be tab-able
-      const type: string = symbols.varType ? symbols.varType : `[type]`;
+      const type: string = symbols.varType ? symbols.varType : this.typePlaceholder;
 
       this.addVarTag(snippet, type);
     }
   }
 
+  /**
+   * Appends a type placeholder, wrapped in braces if the dialect expects them
+   *
+   * Nothing is appended when the dialect does not document types, and spacing
+   * alone when the type is empty.
+   *
+   * @param  {Snippet}  snippet  The snippet to append the type to
+   * @param  {string}   type     The type
+   * @param  {string}   spacing  Spacing following the type
+   */
+  protected appendType(snippet: Snippet, type: string, spacing: string): void {
+    const { braces, types } = this.dialect;
+
+    // Keep the columns following a missing type aligned
+    if (types && !type) {
+      snippet.appendText(' '.repeat(braces ? 2 : 0) + spacing);
+    } else if (types) {
+      snippet
+        .appendText(braces ? '{' : '')
+        .appendPlaceholder(type)
+        .appendText((braces ? '}' : '') + spacing);
+    }
+  }
+
+  /**
+   * Retrieves the template used when no template was defined by the user
+   *
+   * @return  {string[]}  The template lines
+   */
+  protected getDefaultTemplate(): string[] {
+    const blank = this.newLinesBetweenTags ? [''] : [];
+
+    const { footer, header } = this.dialect;
+
+    return [
+      ...header,
+      ...blank,
+      '${var}',
+      ...blank,
+      '${params}',
+      ...blank,
+      '${return}',
+      '${retval}',
+      ...blank,
+      '${extraTags}',
+      ...footer,
+    ];
+  }
+
+  /**
+   * Measures the widest direction of the parameter tags of a symbol
+   *
+   * @param   {Symbols}  symbols  Tokenized code
+   *
+   * @return  {number}            The width of the widest direction, 0 if no
+   *                              parameter tag has one
+   */
+  protected getDirectionWidth(symbols: Symbols): number {
+    return Math.max(0, ...symbols.params.map((param) => this.getParamDirection(param).length));
+  }
+
+  /**
+   * Retrieves the value of a setting keyed by symbol kind
+   *
+   * Values defined for the parser's language, such as `php.function`, take
+   * precedence over values defined for all languages.
+   *
+   * @param   {object}      setting  The setting's values keyed by symbol kind
+   * @param   {SymbolKind}  kind     The kind of symbol
+   *
+   * @return  {any}                  The value, undefined if none was defined
+   */
+  protected getKindSetting<T>(setting: { [kind: string]: T }, kind: SymbolKind): T {
+    const name = Parser.kindNames[kind];
+
+    const key = [`${this.languageId}.${name}`, name].find((item) => {
+      return name && Object.prototype.hasOwnProperty.call(setting, item);
+    });
+
+    return key ? setting[key] : undefined;
+  }
+
+  /**
+   * Determines the direction a parameter tag notes, such as `[in,out]` for
+   * parameters passed by reference in Doxygen
+   *
+   * @param   {IParam}  param  The parameter
+   *
+   * @return  {string}         The direction, empty if the tag has none
+   */
+  protected getParamDirection(param: IParam): string {
+    return param.byRef && this.dialect.byRef === 'direction' ? '[in,out]' : '';
+  }
+
+  /**
+   * Determines the name a parameter is documented by
+   *
+   * @param   {IParam}  param  The parameter
+   *
+   * @return  {string}         The parameter name, noted as optional, rest or
+   *                           passed by reference the way the dialect does,
+   *                           along with its default value when the dialect
+   *                           and settings allow it
+   */
+  protected getParamName(param: IParam): string {
+    const { defaults, optional } = this.dialect;
+
+    const name = this.getParamPrefix(param) + param.name;
+
+    if (this.defaultValues && defaults && param.val) {
+      return `[${name}=${param.val}]`;
+    }
+
+    return optional && (param.optional || param.val) ? `[${name}]` : name;
+  }
+
+  /**
+   * Determines the characters preceding the name of a parameter, such as `&`
+   * for parameters passed by reference in PHPDoc
+   *
+   * @param   {IParam}  param  The parameter
+   *
+   * @return  {string}         The prefix, empty if the dialect notes neither
+   *                           references nor rest parameters by name
+   */
+  protected getParamPrefix(param: IParam): string {
+    const { byRef, rest } = this.dialect;
+
+    const reference = param.byRef && byRef === 'name' ? '&' : '';
+
+    // C varargs are named `...` already
+    const variadic = param.rest && rest === 'name' && param.name !== '...' ? '...' : '';
+
+    return reference + variadic;
+  }
+
+  /**
+   * Determines the type a parameter is documented by
+   *
+   * @param   {IParam}  param  The parameter
+   *
+   * @return  {string}         The parameter type, the type placeholder if it
+   *                           has none, prefixed by `...` for rest parameters
+   *                           when the dialect notes them by type. Empty for
+   *                           C varargs, which take arguments of any type
+   */
+  protected getParamType(param: IParam): string {
+    if (param.name === '...') {
+      return '';
+    }
+
+    const type = Object.prototype.hasOwnProperty.call(param, 'type') ? param.type : this.typePlaceholder;
+
+    return param.rest && this.dialect.rest === 'type' ? `...${type}` : type;
+  }
+
+  /**
+   * Retrieves the variables and sections available to templates
+   *
+   * @param   {Symbols}           symbols  Tokenized code
+   *
+   * @return  {ITemplateContext}           The template context
+   */
+  protected getTemplateContext(symbols: Symbols): ITemplateContext {
+    const { eos, separator } = this.settings;
+    const { name } = symbols;
+
+    // Project variables are read once a template references them
+    const variables = new Variables(this.fileName, this.dateFormat).resolve();
+
+    const context: ITemplateContext = {
+      eos,
+      sections: {
+        params: (snippet) => this.renderParamTags(symbols, snippet),
+        retval: (snippet) => this.renderRetvalTag(symbols, snippet),
+        return: (snippet) => this.renderReturnTag(symbols, snippet),
+        var: (snippet) => this.renderVarTag(symbols, snippet),
+      },
+      separator,
+      variables: Object.assign(variables, {
+        baseName: variables.baseName || this.locale.get('fileName'),
+        description: this.locale.get('description', { name }),
+        fileName: variables.fileName || this.locale.get('fileName'),
+        name,
+        returnType: symbols.return.type || this.typePlaceholder,
+        summary: this.locale.get('summary', { name }),
+        title: this.locale.get('title'),
+        varType: symbols.varType || this.typePlaceholder,
+      }),
+    };
+
+    context.sections.extraTags = (snippet) => this.renderExtraTags(symbols, snippet, context);
+
+    return context;
+  }
+
+  /**
+   * Infers the type of a parameter from its default value
+   *
+   * @param   {IParam}  param  The parameter
+   *
+   * @return  {string}         The declared type, the type of the literal
+   *                           default value otherwise, undefined if neither
+   *                           is known
+   */
+  protected inferType(param: IParam): string {
+    if (param.type || !param.val) {
+      return param.type;
+    }
+
+    const literal = this.literalTypes.find(([expression]) => expression.test(param.val));
+
+    return literal ? literal[1] : undefined;
+  }
+
   /**
    * Checks if the given string is a variable name and not a reserved keyword
    *
@@ -567,7 +1074,8 @@ export abstract class Parser {
   /**
    * Finds the longest value property value of property provided
    *
-   * Used for spacing out docblock segments per line
+   * Used for spacing out docblock segments per line, so values are measured
+   * by their display width
    *
    * @param   {Symbols}  tokens    Parsed tokens from code string
    * @param   {string}  property  The token property to calculate
@@ -579,17 +1087,14 @@ export abstract class Parser {
       return this.columnCount;
     }
 
-    // Filter out any parameters without property provided
-    const filtered = tokens.params.filter((param) => Object.prototype.hasOwnProperty.call(param, property));
-    // Convert parameter object into simple list of given property name
-    const params: number[] = filtered.map((param) => param[property].length);
-    // If nothing parsed return zero
-    if (!params.length && property === 'type') {
-      return this.typePlaceholder.length;
-    }
+    // Measure the parameters as they are rendered, parameters without a type
+    // with the type placeholder
+    const params: number[] = tokens.params.map((param) => {
+      return Width.of(property === 'name' ? this.getParamName(param) : this.getParamType(param));
+    });
     // Add return type length if type is requested
     if (property === 'type' && tokens.return.type) {
-      params.push(tokens.return.type.length);
+      params.push(Width.of(tokens.return.type));
     }
     // Get the longest parameter property in list
     return params.reduce((a, b) => Math.max(a, b));
@@ -635,14 +1140,108 @@ export abstract class Parser {
    */
   protected abstract parseVariable(token: Token, symbols: Symbols): void;
 
+  /**
+   * Records the default value of the last parameter, up to the comma or
+   * parenthesis ending it
+   *
+   * @param   {Token}    token    The token currently being parsed
+   * @param   {Symbols}  symbols  The parsed symbols
+   *
+   * @return  {boolean}           True if the token belongs to a default value
+   */
+  protected parseDefaultValue(token: Token, symbols: Symbols): boolean {
+    const { label } = token.type;
+
+    const param = symbols.getParameter(symbols.getLastParameterIndex());
+
+    if (!this.expectDefaultValue) {
+      this.expectDefaultValue = this.expectParameter && !!param && label === '=';
+      this.valueDepth = 0;
+      this.valueStart = token.end;
+
+      return this.expectDefaultValue;
+    }
+
+    if (this.valueDepth === 0 && [',', ')'].includes(label)) {
+      this.setInferredType(param);
+
+      this.expectDefaultValue = false;
+
+      // The closing parenthesis still ends the parameters
+      return label === ',';
+    }
+
+    if (['(', '[', '{', '${'].includes(label)) {
+      this.valueDepth++;
+    } else if ([')', ']', '}'].includes(label)) {
+      this.valueDepth--;
+    }
+
+    param.val = this.code.slice(this.valueStart, token.end).trim();
+
+    return true;
+  }
+
+  /**
+   * Records the modifiers preceding the symbol, such as `private`
+   *
+   * @param  {Token}    token    Tokenized code
+   * @param  {Symbols}  symbols  The symbols parsed so far
+   */
+  protected parseModifier(token: Token, symbols: Symbols): void {
+    // Modifiers only precede the parameters or value of a symbol
+    if (['(', '=', '{', ':', ';'].includes(token.type.label)) {
+      this.expectModifier = false;
+    }
+
+    if (this.expectModifier && this.grammar.is(token.value, 'modifiers')) {
+      symbols.modifiers.push(token.value);
+    }
+  }
+
+  /**
+   * Renders the extra tags configured for the symbol kind
+   *
+   * Each tag is followed by a placeholder containing its value, such as
+   * `@author ${gitName}`.
+   *
+   * @param  {Symbols}           symbols  Tokenized code
+   * @param  {Snippet}           snippet  The snippet to render to
+   * @param  {ITemplateContext}  context  The values available to the tags
+   */
+  protected renderExtraTags(symbols: Symbols, snippet: Snippet, context: ITemplateContext): void {
+    const tags = this.getKindSetting(this.extraTags, symbols.type) || [];
+
+    const lines = tags.map((tag) => tag.trim().replace(/^(\S+)\s+(.+)$/, '$1 ${:$2}'));
+
+    new Template(lines.filter((line) => line)).render(snippet, context);
+  }
+
   /**
    * Resets all parsing flags after symbols have been parsed
    */
   protected reset(): void {
     this.done = false;
+    this.expectDefaultValue = false;
+    this.expectModifier = true;
     this.expectName = false;
     this.expectParameter = false;
     this.expectParameterType = false;
     this.expectReturnType = false;
   }
+
+  /**
+   * Sets the type of a parameter inferred from its default value, marking it
+   * as inferred when it differs from the declared one
+   *
+   * @param  {IParam}  param  The parameter
+   */
+  protected setInferredType(param: IParam): void {
+    const type = this.inferType(param);
+
+    if (type !== param.type) {
+      param.inferred = true;
+      param.type = type;
+    }
+  }
 }
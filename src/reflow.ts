@@ -0,0 +1,359 @@
+import { DocBlock, IBlockRange, ITag } from './docblock';
+import { Width } from './width';
+
+/**
+ * Describes a content line of a docblock
+ */
+interface ILine {
+  /**
+   * The text following the separator, keeping its own indentation
+   */
+  content: string;
+
+  /**
+   * The indentation and separator preceding the content
+   */
+  prefix: string;
+
+  /**
+   * The line as written in the document
+   */
+  source: string;
+}
+
+/**
+ * Describes text re-wrapped as a whole
+ */
+interface IParagraph {
+  /**
+   * The beginning of the first line, such as the tag preceding a description
+   */
+  head: string;
+
+  /**
+   * The beginning of each following line
+   */
+  indent: string;
+
+  /**
+   * The words of the text
+   */
+  words: string[];
+}
+
+/**
+ * Tracks the state of a reflow between lines
+ */
+interface IReflowState {
+  /**
+   * The reflowed lines
+   */
+  output: string[];
+
+  /**
+   * The text collected since the last reflowed line
+   */
+  paragraph?: IParagraph;
+
+  /**
+   * Whether a tag was reached, after which indented lines are descriptions
+   * rather than code
+   */
+  tagged: boolean;
+
+  /**
+   * The tags of the docblock not reached yet
+   */
+  tags: ITag[];
+
+  /**
+   * The kind of lines being left untouched, such as `fence` within code
+   * fences, empty otherwise
+   */
+  verbatim: string;
+}
+
+/**
+ * Re-wraps the text of docblocks to a column
+ *
+ * Summaries, descriptions and tag descriptions are wrapped, keeping the
+ * separator and the alignment of tag descriptions. Code examples and lists
+ * are left untouched.
+ */
+export class Reflow {
+  /**
+   * Lines opening and closing fenced code blocks
+   */
+  public static readonly fences = /^(```|~~~)/;
+
+  /**
+   * Lines beginning list items
+   */
+  public static readonly lists = /^([-*+]|\d+[.)])\s/;
+
+  /**
+   * Lines kept as they are, such as headings and tables
+   */
+  public static readonly preserved = /^[#|<]/;
+
+  /**
+   * Tags followed by code rather than text
+   */
+  public static readonly verbatimTags = [
+    'code',
+    'example',
+    'verbatim',
+  ];
+
+  /**
+   * The column text is wrapped at
+   */
+  public column: number;
+
+  /**
+   * Sets up the reflow
+   *
+   * @param  {number}  column  The column text is wrapped at
+   */
+  public constructor(column = 80) {
+    this.column = column;
+  }
+
+  /**
+   * Re-wraps the text of a docblock
+   *
+   * Docblocks with text on their opening or closing line, or with lines
+   * lacking the separator, are left as they are.
+   *
+   * @param   {string[]}  lines  The lines of the docblock
+   *
+   * @return  {string[]}         The reflowed lines
+   */
+  public reflow(lines: string[]): string[] {
+    const isLineComment = (lines[0] || '').trim().startsWith('///');
+
+    const content = isLineComment ? lines : lines.slice(1, -1);
+
+    const source = Reflow.split(content, isLineComment ? '///' : '*');
+
+    if (!source || (!isLineComment && !DocBlock.isEnclosed(lines))) {
+      return lines;
+    }
+
+    const state: IReflowState = { output: [], tagged: false, tags: DocBlock.parse(lines).tags, verbatim: '' };
+
+    for (const line of source) {
+      this.addLine(line, state);
+    }
+
+    this.flush(state);
+
+    return isLineComment ? state.output : [lines[0].trimRight(), ...state.output, lines[lines.length - 1].trimRight()];
+  }
+
+  /**
+   * Adds a content line to the reflow
+   *
+   * @param  {ILine}         line   The content line
+   * @param  {IReflowState}  state  The state of the reflow
+   */
+  protected addLine(line: ILine, state: IReflowState): void {
+    const text = line.content.trim();
+
+    // Indented text preceding the tags is code
+    const isCode = !state.paragraph && !state.tagged && /^ {4}/.test(line.content);
+
+    if (this.trackVerbatim(text, state) || isCode || Reflow.preserved.test(text)) {
+      this.addVerbatim(line, state);
+    } else if (DocBlock.isTag(text)) {
+      this.addTag(line, state);
+    } else if (state.paragraph) {
+      state.paragraph.words.push(...text.split(/\s+/));
+    } else {
+      const head = line.prefix + /^\s*/.exec(line.content)[0];
+
+      state.paragraph = { head, indent: head, words: text.split(/\s+/) };
+    }
+  }
+
+  /**
+   * Adds a line beginning a tag to the reflow
+   *
+   * The description on the tag line is wrapped, with the following lines
+   * aligned to where it begins.
+   *
+   * @param  {ILine}         line   The tag line
+   * @param  {IReflowState}  state  The state of the reflow
+   */
+  protected addTag(line: ILine, state: IReflowState): void {
+    const tag = state.tags.shift();
+
+    this.addVerbatim(undefined, state);
+
+    state.tagged = true;
+    state.verbatim = tag && Reflow.verbatimTags.includes(tag.tag) ? 'tag' : '';
+
+    const [description] = tag && !state.verbatim ? tag.description.split('\n') : [''];
+
+    const head = line.content.substr(0, line.content.length - description.length);
+
+    // Descriptions beginning on the following lines are wrapped on their own
+    if (!description || !line.content.endsWith(description) || !/\s$/.test(head)) {
+      this.addVerbatim(line, state);
+    } else {
+      const indent = line.prefix + ' '.repeat(Width.of(head));
+
+      state.paragraph = { head: line.prefix + head, indent, words: description.split(/\s+/) };
+    }
+  }
+
+  /**
+   * Adds a line to the reflow as it is written, ending the current paragraph
+   *
+   * @param  {ILine}         line   The line, undefined to only end the
+   *                                paragraph
+   * @param  {IReflowState}  state  The state of the reflow
+   */
+  protected addVerbatim(line: ILine, state: IReflowState): void {
+    this.flush(state);
+
+    if (line) {
+      state.output.push(line.source.trimRight());
+    }
+  }
+
+  /**
+   * Wraps the current paragraph into the reflowed lines
+   *
+   * @param  {IReflowState}  state  The state of the reflow
+   */
+  protected flush(state: IReflowState): void {
+    if (state.paragraph) {
+      state.output.push(...this.wrap(state.paragraph));
+    }
+
+    state.paragraph = undefined;
+  }
+
+  /**
+   * Tracks the code fences, lists and code tags whose lines are kept as
+   * written
+   *
+   * @param   {string}        text   The content of the line
+   * @param   {IReflowState}  state  The state of the reflow
+   *
+   * @return  {boolean}              True if the line is kept as written
+   */
+  protected trackVerbatim(text: string, state: IReflowState): boolean {
+    if (state.verbatim === 'tag') {
+      return !DocBlock.isTag(text);
+    }
+
+    if (state.verbatim === 'fence') {
+      state.verbatim = Reflow.fences.test(text) ? '' : 'fence';
+
+      return true;
+    }
+
+    if (Reflow.fences.test(text) || Reflow.lists.test(text)) {
+      state.verbatim = Reflow.fences.test(text) ? 'fence' : 'list';
+
+      return true;
+    }
+
+    // Blank lines end lists
+    if (!text) {
+      state.verbatim = '';
+
+      return true;
+    }
+
+    return state.verbatim !== '' && !DocBlock.isTag(text);
+  }
+
+  /**
+   * Wraps the words of a paragraph at the column
+   *
+   * Words longer than the column are kept on a line of their own.
+   *
+   * @param   {IParagraph}  paragraph  The paragraph to wrap
+   *
+   * @return  {string[]}               The wrapped lines
+   */
+  protected wrap(paragraph: IParagraph): string[] {
+    const lines: string[] = [];
+
+    let line = paragraph.head;
+    let isEmpty = true;
+
+    for (const word of paragraph.words) {
+      if (!isEmpty && Width.of(`${line} ${word}`) > this.column) {
+        lines.push(line);
+
+        line = paragraph.indent + word;
+      } else {
+        line += isEmpty ? word : ` ${word}`;
+      }
+
+      isEmpty = false;
+    }
+
+    lines.push(line.trimRight());
+
+    return lines;
+  }
+
+  /**
+   * Finds every docblock of a document
+   *
+   * @param   {string[]}       lines  The lines of the document
+   * @param   {string}         open   The opening of block comments
+   *
+   * @return  {IBlockRange[]}         The lines of each docblock
+   */
+  public static findBlocks(lines: string[], open = '/**'): IBlockRange[] {
+    const ranges: IBlockRange[] = [];
+
+    for (let line = 0; line < lines.length; line++) {
+      const text = lines[line].trim();
+
+      const range = text.startsWith(open) || text.startsWith('///') ? DocBlock.find(lines, line, open) : undefined;
+
+      if (range) {
+        ranges.push(range);
+
+        line = range.end;
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Splits the content lines of a docblock from their separator
+   *
+   * @param   {string[]}  lines   The content lines of the docblock
+   * @param   {string}    marker  The characters beginning each line, such as
+   *                              `*`
+   *
+   * @return  {ILine[]}           The split lines, undefined if any line lacks
+   *                              the marker
+   */
+  protected static split(lines: string[], marker: string): ILine[] {
+    const expression = new RegExp(`^(\\s*${marker.replace(/\*/g, '\\*')})( *)(.*)$`);
+
+    const matches = lines.map((line) => expression.exec(line));
+
+    if (matches.some((match) => !match)) {
+      return undefined;
+    }
+
+    // Spaces following the marker on every line belong to the separator
+    const spaces = matches.filter((match) => match[3].trim()).map((match) => match[2].length);
+    const padding = spaces.length ? Math.min(...spaces) : 1;
+
+    return matches.map(([source, marked, space, rest]) => {
+      return { content: space.substr(padding) + rest.trimRight(), prefix: marked + space.substr(0, padding), source };
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import { Checker } from './checker';
+import { IViolation, Linter } from './linter';
+
+/**
+ * Describes the documentation problems found in a file
+ */
+export interface IReportFile {
+  /**
+   * Path of the file, relative to the working directory
+   */
+  file: string;
+
+  /**
+   * The problems found in the file
+   */
+  violations: IViolation[];
+}
+
+/**
+ * Formats the documentation problems found across files
+ */
+export class Report {
+  /**
+   * Descriptions of each kind of problem keyed by code
+   */
+  public static readonly descriptions = {
+    [Checker.codes.missingParam]: 'A parameter is not documented',
+    [Checker.codes.paramOrder]: '@param tags are not in the order of the parameters',
+    [Checker.codes.superfluousReturn]: 'A return value is documented for a function returning none',
+    [Checker.codes.typeMismatch]: 'A documented type does not match the declared type',
+    [Checker.codes.unknownParam]: 'A documented parameter does not exist',
+    [Linter.undocumented]: 'A declaration has no docblock',
+  };
+
+  /**
+   * The names of the supported formats
+   */
+  public static readonly formats = [
+    'human',
+    'json',
+    'sarif',
+  ];
+
+  /**
+   * The files with problems
+   */
+  public files: IReportFile[];
+
+  /**
+   * Sets up the report, leaving out files without problems
+   *
+   * @param  {IReportFile[]}  files  The linted files
+   */
+  public constructor(files: IReportFile[]) {
+    this.files = files.filter((item) => item.violations.length);
+  }
+
+  /**
+   * Counts the problems of every file
+   *
+   * @return  {number}  The number of problems
+   */
+  public count(): number {
+    return this.files.reduce((total, item) => total + item.violations.length, 0);
+  }
+
+  /**
+   * Formats the report
+   *
+   * @param   {string}  format  One of `formats`
+   *
+   * @return  {string}          The formatted report
+   */
+  public format(format: string): string {
+    switch (format) {
+    case 'json':
+      return this.toJson();
+    case 'sarif':
+      return this.toSarif();
+    default:
+      return this.toHuman();
+    }
+  }
+
+  /**
+   * Formats the report as one line per problem followed by a summary, lines
+   * and columns starting at 1
+   *
+   * @return  {string}  The human readable report
+   */
+  public toHuman(): string {
+    const lines: string[] = [];
+
+    for (const { file, violations } of this.files) {
+      for (const { code, line, message, start } of violations) {
+        lines.push(`${file}:${line + 1}:${start + 1}  ${message}  (${code})`);
+      }
+    }
+
+    const count = this.count();
+    const files = this.files.length;
+
+    if (count) {
+      lines.push('', `${count} problem${count === 1 ? '' : 's'} in ${files} file${files === 1 ? '' : 's'}`);
+    } else {
+      lines.push('No problems found');
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Formats the report as a JSON array of problems, lines and columns
+   * starting at 1
+   *
+   * @return  {string}  The JSON report
+   */
+  public toJson(): string {
+    const problems = [];
+
+    for (const { file, violations } of this.files) {
+      for (const { code, end, line, message, start, symbol } of violations) {
+        problems.push({ code, column: start + 1, endColumn: end + 1, file, line: line + 1, message, symbol });
+      }
+    }
+
+    return JSON.stringify(problems, null, 2) + '\n';
+  }
+
+  /**
+   * Formats the report as a SARIF 2.1.0 log, understood by code scanning
+   * services
+   *
+   * @return  {string}  The SARIF log
+   */
+  public toSarif(): string {
+    const rules = Object.keys(Report.descriptions).map((id) => {
+      return { id, shortDescription: { text: Report.descriptions[id] } };
+    });
+
+    const results = [];
+
+    for (const { file, violations } of this.files) {
+      for (const { code, end, line, message, start } of violations) {
+        const region = { endColumn: end + 1, startColumn: start + 1, startLine: line + 1 };
+
+        results.push({
+          level: 'error',
+          locations: [{ physicalLocation: { artifactLocation: { uri: file }, region } }],
+          message: { text: message },
+          ruleId: code,
+        });
+      }
+    }
+
+    const log = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      runs: [{
+        results,
+        tool: {
+          driver: {
+            informationUri: 'https://github.com/jeremyvii/vs-docblockr',
+            name: 'vs-docblockr',
+            rules,
+          },
+        },
+      }],
+      version: '2.1.0',
+    };
+
+    return JSON.stringify(log, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,399 @@
+import { DocBlock, IBlockRange } from './docblock';
+import { Parser } from './parser';
+import { Symbols, SymbolKind } from './symbols';
+
+/**
+ * Describes a declaration found in a document
+ */
+export interface IDeclaration {
+  /**
+   * The lines of the docblock preceding the declaration, if documented
+   */
+  block?: IBlockRange;
+
+  /**
+   * Whether the declaration is preceded by a docblock
+   */
+  documented: boolean;
+
+  /**
+   * The line the declaration begins on
+   */
+  line: number;
+
+  /**
+   * Whether the declaration is a member of a class or namespace
+   */
+  member: boolean;
+
+  /**
+   * The symbols parsed from the declaration
+   */
+  symbols: Symbols;
+}
+
+/**
+ * Tracks the state of a scan between lines
+ */
+interface IScanState {
+  /**
+   * Whether the scan is inside a block comment
+   */
+  comment: boolean;
+
+  /**
+   * Number of parentheses and brackets left open, such as by a parameter list
+   * spanning lines
+   */
+  depth: number;
+
+  /**
+   * The kind of the declaration the next opening brace belongs to
+   */
+  pending: SymbolKind;
+
+  /**
+   * Whether each open scope may contain declarations
+   */
+  scopes: boolean[];
+}
+
+/**
+ * Finds the declarations of a document and whether they are documented
+ */
+export class Scanner {
+  /**
+   * Keywords beginning statements that are never declarations
+   */
+  public static controlKeywords = [
+    'case',
+    'catch',
+    'delete',
+    'do',
+    'echo',
+    'else',
+    'elseif',
+    'for',
+    'foreach',
+    'if',
+    'new',
+    'print',
+    'return',
+    'switch',
+    'throw',
+    'try',
+    'typeof',
+    'while',
+    'yield',
+  ];
+
+  /**
+   * The kinds of declarations reported by the scanner
+   */
+  public static readonly kinds = [
+    SymbolKind.Class,
+    SymbolKind.Function,
+  ];
+
+  /**
+   * Lines that may separate a declaration from its docblock, such as
+   * decorators, annotations and line comments
+   */
+  public static readonly skippedLines = /^(@|#\[|\/\/(?!\/))/;
+
+  /**
+   * Language specific code parser
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the scanner with the language parser of the document
+   *
+   * @param  {Parser}  parser  Code parser
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Locates the docblock preceding the declaration at the provided line,
+   * skipping decorators, annotations and line comments in between
+   *
+   * @param   {string[]}     lines  The lines of the document
+   * @param   {number}       line   The line the declaration begins on
+   *
+   * @return  {IBlockRange}         The lines of the docblock, undefined if the
+   *                                declaration is not documented
+   */
+  public findBlock(lines: string[], line: number): IBlockRange {
+    const start = this.getInsertLine(lines, line);
+
+    const open = this.parser.settings.commentOpen.trim();
+
+    const range = DocBlock.find(lines, start, open);
+
+    return range && range.end === start - 1 ? range : undefined;
+  }
+
+  /**
+   * Determines the line the docblock of the declaration at the provided line
+   * belongs on, above its decorators and annotations
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {number}    line   The line the declaration begins on
+   *
+   * @return  {number}           The line following the docblock
+   */
+  public getInsertLine(lines: string[], line: number): number {
+    let start = line;
+
+    while (start > 0 && Scanner.skippedLines.test(lines[start - 1].trim())) {
+      start--;
+    }
+
+    return start;
+  }
+
+  /**
+   * Checks whether the declaration at the provided line is preceded by a
+   * docblock
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {number}    line   The line the declaration begins on
+   *
+   * @return  {boolean}          True if the declaration is documented
+   */
+  public isDocumented(lines: string[], line: number): boolean {
+    return !!this.findBlock(lines, line);
+  }
+
+  /**
+   * Checks whether a declaration is a private member
+   *
+   * @param   {IDeclaration}  declaration  The declaration to check
+   *
+   * @return  {boolean}                    True if the declaration is private
+   */
+  public isPrivate(declaration: IDeclaration): boolean {
+    const { modifiers, name } = declaration.symbols;
+
+    return declaration.member && (modifiers.includes('private') || name.startsWith('#'));
+  }
+
+  /**
+   * Checks whether a declaration is part of the public interface of the
+   * document
+   *
+   * Members are public unless declared private or protected. Outside of
+   * classes, languages with an `export` modifier require it, and `static`
+   * declarations are private to their file.
+   *
+   * @param   {IDeclaration}  declaration  The declaration to check
+   *
+   * @return  {boolean}                    True if the declaration is public
+   */
+  public isPublic(declaration: IDeclaration): boolean {
+    const { modifiers } = declaration.symbols;
+
+    if (declaration.member) {
+      return !this.isPrivate(declaration) && !modifiers.includes('protected');
+    }
+
+    if (this.parser.grammar.is('export', 'modifiers')) {
+      return modifiers.includes('export');
+    }
+
+    return !modifiers.includes('static');
+  }
+
+  /**
+   * Finds the classes and functions declared in a document
+   *
+   * Declarations nested in function bodies and other blocks are skipped, as
+   * they are not part of the structure of the document.
+   *
+   * @param   {string[]}        lines  The lines of the document
+   *
+   * @return  {IDeclaration[]}         The declarations found
+   */
+  public scan(lines: string[]): IDeclaration[] {
+    const declarations: IDeclaration[] = [];
+
+    const state: IScanState = { comment: false, depth: 0, pending: undefined, scopes: [] };
+
+    lines.forEach((text, line) => {
+      const code = this.stripLine(text, state);
+
+      // Lines continuing a signature, such as its parameters, begin no declaration
+      const isOpen = !state.depth && state.scopes.every((scope) => scope);
+
+      const symbols = isOpen ? this.getDeclaration(lines, line, code) : undefined;
+
+      if (symbols) {
+        state.pending = symbols.type;
+
+        if (Scanner.kinds.includes(symbols.type)) {
+          const member = state.scopes.length > 0;
+
+          const block = this.findBlock(lines, line);
+
+          declarations.push({ block, documented: !!block, line, member, symbols });
+        }
+      }
+
+      this.trackScopes(code, state);
+    });
+
+    return declarations;
+  }
+
+  /**
+   * Parses the declaration beginning at the provided line
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {number}    line   The line to parse
+   * @param   {string}    code   The line without strings and comments
+   *
+   * @return  {Symbols}          The declared symbols, undefined if the line
+   *                             does not begin a declaration
+   */
+  protected getDeclaration(lines: string[], line: number, code: string): Symbols {
+    const keyword = /^[}\s]*([\w$#@]*)/.exec(code)[1];
+
+    // Declarations begin with an identifier or a modifier
+    if (!keyword || Scanner.controlKeywords.includes(keyword)) {
+      return undefined;
+    }
+
+    const signature = this.parser.getSignatureFromLines(lines, line);
+
+    if (!Scanner.hasBody(signature)) {
+      return undefined;
+    }
+
+    try {
+      const symbols = this.parser.getSymbols(signature);
+
+      const { name, type } = symbols;
+
+      const isKeyword = Scanner.controlKeywords.includes(name) || this.parser.grammar.is(name, 'class');
+
+      return name && !isKeyword && [SymbolKind.Namespace, ...Scanner.kinds].includes(type) ? symbols : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Removes strings, regular expressions and comments from a line, so their
+   * braces are ignored
+   *
+   * @param   {string}      text   The line to strip
+   * @param   {IScanState}  state  The state of the scan
+   *
+   * @return  {string}             The code of the line
+   */
+  protected stripLine(text: string, state: IScanState): string {
+    let code = '';
+    let index = 0;
+
+    while (index < text.length) {
+      if (state.comment) {
+        const end = text.indexOf('*/', index);
+
+        state.comment = end < 0;
+        index = end < 0 ? text.length : end + 2;
+
+        continue;
+      }
+
+      const match = /\/\*|\/\/|["'`/]/.exec(text.substr(index)) || { 0: '//', index: text.length - index };
+
+      code += text.substr(index, match.index);
+      index += match.index;
+
+      if (match[0] === '//') {
+        break;
+      }
+
+      state.comment = match[0] === '/*';
+
+      // A slash following an operand is a division rather than a regular
+      // expression
+      if (state.comment || (match[0] === '/' && !/(^|[(,=:[!&|?{};]|\breturn)\s*$/.test(code))) {
+        code += state.comment ? '' : '/';
+        index += match[0].length;
+      } else {
+        index = Scanner.skipString(text, index);
+      }
+    }
+
+    return code;
+  }
+
+  /**
+   * Opens and closes scopes for the braces of a line, and counts the
+   * parentheses and brackets left open
+   *
+   * The first opening brace following a declaration, outside of parentheses
+   * and brackets, opens its body, which may contain declarations if it belongs
+   * to a class or namespace.
+   *
+   * @param  {string}      code   The line without strings and comments
+   * @param  {IScanState}  state  The state of the scan
+   */
+  protected trackScopes(code: string, state: IScanState): void {
+    for (const character of code) {
+      if ('(['.includes(character)) {
+        state.depth++;
+      } else if (')]'.includes(character)) {
+        state.depth = Math.max(state.depth - 1, 0);
+      } else if (character === '{') {
+        state.scopes.push(!state.depth && [SymbolKind.Class, SymbolKind.Namespace].includes(state.pending));
+        state.pending = state.depth ? state.pending : undefined;
+      } else if (character === '}') {
+        state.scopes.pop();
+      } else if (character === ';') {
+        state.pending = undefined;
+      }
+    }
+  }
+
+  /**
+   * Checks whether a signature is followed by a body rather than ending the
+   * statement, as calls and prototypes do
+   *
+   * @param   {string}   signature  The signature to check
+   *
+   * @return  {boolean}             True if the signature has a body
+   */
+  protected static hasBody(signature: string): boolean {
+    const body = signature.search(/\{|=>/);
+    const end = signature.indexOf(';');
+
+    return body >= 0 && (end < 0 || body < end);
+  }
+
+  /**
+   * Finds the end of the string or regular expression beginning at the
+   * provided index
+   *
+   * @param   {string}  text   The line containing the string
+   * @param   {number}  start  The index of the opening delimiter
+   *
+   * @return  {number}         The index following the closing quote
+   */
+  protected static skipString(text: string, start: number): number {
+    const quote = text[start];
+
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+      } else if (text[i] === quote) {
+        return i + 1;
+      }
+    }
+
+    return text.length;
+  }
+}
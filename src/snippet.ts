@@ -0,0 +1,96 @@
+/**
+ * A snippet with tab-stop placeholders, independent of any editor
+ *
+ * The value uses the TextMate snippet syntax understood by editors such as VS
+ * Code, where it can be inserted as a `SnippetString`.
+ */
+export class Snippet {
+  /**
+   * The snippet in TextMate snippet syntax
+   */
+  public value: string;
+
+  /**
+   * The number of the next placeholder
+   */
+  protected tabstop = 1;
+
+  /**
+   * Sets up the snippet
+   *
+   * @param  {string}  value  The initial value, in snippet syntax
+   */
+  public constructor(value = '') {
+    this.value = value;
+  }
+
+  /**
+   * Appends a placeholder
+   *
+   * @param   {string}   value   The default value of the placeholder
+   * @param   {number}   number  The number of the placeholder, defaults to the
+   *                             next one
+   *
+   * @return  {Snippet}          The snippet
+   */
+  public appendPlaceholder(value: string, number = this.tabstop++): Snippet {
+    this.value += `\${${number}:${Snippet.escape(value)}}`;
+
+    return this;
+  }
+
+  /**
+   * Appends text, escaping the characters that have a meaning in snippets
+   *
+   * @param   {string}   text  The text to append
+   *
+   * @return  {Snippet}        The snippet
+   */
+  public appendText(text: string): Snippet {
+    this.value += Snippet.escape(text);
+
+    return this;
+  }
+
+  /**
+   * Converts the snippet into the text it inserts, keeping the default values
+   * of placeholders
+   *
+   * Used where snippets cannot be inserted, such as workspace edits.
+   *
+   * @return  {string}  The plain text
+   */
+  public toPlainText(): string {
+    // Number of placeholders whose closing brace has not been reached
+    let depth = 0;
+
+    const expression = /\\([$}\\])|\$\{\d+:|\$\{\d+\|([^,|]*)[^|]*\|\}|\$\d+|\$\{\d+\}|\}/g;
+
+    return this.value.replace(expression, (match: string, escaped: string, choice: string) => {
+      if (escaped !== undefined || choice !== undefined) {
+        return escaped !== undefined ? escaped : choice;
+      }
+
+      if (match.endsWith(':')) {
+        depth++;
+      } else if (match === '}' && depth > 0) {
+        depth--;
+      } else if (match === '}') {
+        return match;
+      }
+
+      return '';
+    });
+  }
+
+  /**
+   * Escapes the characters that have a meaning in snippets
+   *
+   * @param   {string}  text  The text to escape
+   *
+   * @return  {string}        The escaped text
+   */
+  public static escape(text: string): string {
+    return text.replace(/\$|}|\\/g, '\\$&');
+  }
+}
@@ -3,20 +3,28 @@ import {
   CompletionItem,
   CompletionItemKind,
   CompletionItemProvider,
+  ConfigurationChangeEvent,
+  EndOfLine,
+  env,
+  FileCreateEvent,
+  MarkdownString,
   Position,
+  Range,
   Selection,
+  SnippetString,
   TextDocument,
   TextEditor,
   window,
+  workspace,
 } from 'vscode';
 
+import { Completion } from './completion';
+import { IConfiguration } from './configuration';
+import { DocBlock } from './docblock';
+import { Generator } from './generator';
+import { FileHeader } from './header';
 import { Parser } from './parser';
-
-import { C } from './languages/c';
-import { Java } from './languages/java';
-import { PHP } from './languages/php';
-import { SCSS } from './languages/scss';
-import { TypeScript } from './languages/typescript';
+import { Updater } from './updater';
 
 /**
  * Snippet handler
@@ -28,33 +36,13 @@ export class Snippets implements CompletionItemProvider {
   /**
    * A map of language ID's and language specific parsers
    */
-  public static languageList = {
-    c: C,
-    cpp: C,
-    java: Java,
-    javascript: TypeScript,
-    php: PHP,
-    scss: SCSS,
-    typescript: TypeScript,
-    vue: TypeScript,
-  };
-
-  /**
-   * Language specific code parser
-   *
-   * Handles code parsing, and generates docblock string. The language parser is
-   * determined in `extension.ts`.
-   */
-  protected parser: Parser;
+  public static languageList = Generator.languages;
 
   /**
-   * Sets up the parser, instantiated from extension entry point
-   *
-   * @param  {parser}  parser  Code parser
+   * Configurations resolved for documents, keyed by language ID and workspace
+   * folder
    */
-  public constructor(parser: Parser) {
-    this.parser = parser;
-  }
+  protected static configurations: { [key: string]: IConfiguration } = {};
 
   /**
    * @inheritdoc
@@ -74,27 +62,132 @@ export class Snippets implements CompletionItemProvider {
       // Replace the currently selected line
       item.range = range;
 
-      item.insertText = this.parser.init(window.activeTextEditor);
+      item.insertText = this.render(document, position);
       item.detail = 'VS DocBlockr';
 
       result.push(item);
     }
+    // Complete tags typed within existing docblocks
+    if (range === undefined) {
+      result.push(...this.provideTagCompletionItems(document, position));
+    }
     return result;
   }
 
+  /**
+   * Retrieves the configuration of docblocks from the extension's settings
+   *
+   * Settings are resolved for the workspace folder and language of the
+   * provided document, and cached until they change.
+   *
+   * @param   {TextDocument}    document  The document the docblocks are
+   *                                      generated for, if any
+   *
+   * @return  {IConfiguration}            The configuration
+   */
+  public static getConfiguration(document?: TextDocument): IConfiguration {
+    if (!document) {
+      return Snippets.readConfiguration();
+    }
+
+    const folder = workspace.getWorkspaceFolder(document.uri);
+
+    const key = `${document.languageId}:${folder ? folder.uri.toString() : ''}`;
+
+    if (!Object.prototype.hasOwnProperty.call(Snippets.configurations, key)) {
+      Snippets.configurations[key] = Snippets.readConfiguration(document);
+    }
+
+    return Snippets.configurations[key];
+  }
+
+  /**
+   * Retrieves the end of line sequence of a document
+   *
+   * @param   {TextDocument}  document  The document
+   *
+   * @return  {string}                  The end of line sequence, such as `\r\n`
+   */
+  public static getEol(document: TextDocument): string {
+    return document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+  }
+
+  /**
+   * Retrieves the language parser of a document, configured by the settings
+   * applying to the document
+   *
+   * @param   {TextDocument}  document  The document to parse
+   *
+   * @return  {Parser}                  A language specific parser instance
+   */
+  public static getParser(document: TextDocument): Parser {
+    const parser = Generator.createParser(document.languageId, Snippets.getConfiguration(document));
+
+    Snippets.setDocument(parser, document);
+
+    return parser;
+  }
+
   /**
    * Retrieve a language parser instance based on the provide language ID
    *
    * @param   {string}  language  A language ID
    *
-   * @return  {Parser}            A language specific parser instance
+   * @return  {Parser}            A language specific parser instance,
+   *                              configured by the extension's settings
    */
   public static getParserFromLanguageID(language: string): Parser {
-    if (!Object.prototype.hasOwnProperty.call(Snippets.languageList, language)) {
-      throw new Error(`This language is not supported: ${language}`);
+    return Generator.createParser(language, Snippets.getConfiguration());
+  }
+
+  /**
+   * Forgets the cached configurations once the extension's settings change
+   *
+   * @param  {ConfigurationChangeEvent}  event  The change of the settings
+   */
+  public static onDidChangeConfiguration(event: ConfigurationChangeEvent): void {
+    if (event.affectsConfiguration('vs-docblockr')) {
+      Snippets.configurations = {};
     }
+  }
+
+  /**
+   * Inserts file headers into newly created files that are empty, when
+   * `vs-docblockr.autoFileHeader` is enabled
+   *
+   * @param  {FileCreateEvent}  event  The files that were created
+   */
+  public static async onDidCreateFiles(event: FileCreateEvent): Promise<void> {
+    for (const uri of event.files) {
+      const document = await workspace.openTextDocument(uri);
+
+      const isSupported = Object.prototype.hasOwnProperty.call(Snippets.languageList, document.languageId);
+
+      const isEnabled = workspace.getConfiguration('vs-docblockr', document).get('autoFileHeader');
 
-    return new Snippets.languageList[language]() as Parser;
+      if (isSupported && isEnabled && !document.getText().trim()) {
+        const editor = await window.showTextDocument(document);
+
+        await Snippets.provideInsertFileHeader(editor);
+      }
+    }
+  }
+
+  /**
+   * Inserts the file header into the document of the provided editor
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideInsertFileHeader(editor: TextEditor): Promise<void> {
+    const { document } = editor;
+
+    const header = new FileHeader(Snippets.getParser(document));
+
+    const lines = document.getText().split(/\r?\n/);
+
+    const snippet = header.render(lines);
+
+    await editor.insertSnippet(new SnippetString(snippet.value), new Position(header.getInsertLine(lines), 0));
   }
 
   /**
@@ -104,16 +197,13 @@ export class Snippets implements CompletionItemProvider {
    */
   public static async provideRenderFromSelectionSnippet(editor: TextEditor): Promise<void> {
     // Retrieve the current selection from the editor
-    const { selection } = editor;
+    const { document, selection } = editor;
 
-    // Determine the current language being used
-    const activeLanguage = window.activeTextEditor.document.languageId;
-
-    // Retrieve a parser instance for the active language
-    const parser = Snippets.getParserFromLanguageID(activeLanguage);
+    // Retrieve a parser instance configured for the edited document
+    const parser = Snippets.getParser(document);
 
     // Render a docblock from the selection
-    const block = parser.renderFromSelection(selection);
+    const block = new SnippetString(parser.renderBlock(parser.getSymbols(document.getText(selection))).value);
 
     // Ensure the selection ends at the top of the function signature
     // This is unideal but seems to be the best way to generating snippets
@@ -125,6 +215,167 @@ export class Snippets implements CompletionItemProvider {
     editor.insertSnippet(block);
   }
 
+  /**
+   * Updates the docblock under the cursor of the provided editor
+   *
+   * @param  {TextEditor}  editor  The currently active text editor
+   */
+  public static async provideUpdateDocblock(editor: TextEditor): Promise<void> {
+    const { document } = editor;
+
+    const lines = document.getText().split(/\r?\n/);
+
+    let update: ReturnType<Updater['update']>;
+
+    try {
+      update = new Updater(Snippets.getParser(document)).update(lines, editor.selection.active.line);
+    } catch (error) {
+      if (error instanceof Error) {
+        window.showErrorMessage(error.message);
+      }
+
+      return;
+    }
+
+    const { block, snippet } = update;
+
+    // Replace the docblock, leaving its indentation in place
+    const start = new Position(block.range.start, block.indent.length);
+
+    await editor.insertSnippet(new SnippetString(snippet.value), new Range(start, document.lineAt(block.range.end).range.end));
+  }
+
+  /**
+   * Points a parser to the document it documents, which variables such as
+   * `${fileName}` and `${version}` are resolved for
+   *
+   * @param  {Parser}        parser    The language parser
+   * @param  {TextDocument}  document  The document being documented
+   */
+  public static setDocument(parser: Parser, document: TextDocument): void {
+    parser.fileName = document.isUntitled ? '' : document.fileName;
+  }
+
+  /**
+   * Provides the tags of the dialect, and the tags of the parameters not
+   * documented yet, when typing `@` within a docblock
+   *
+   * @param   {TextDocument}      document  The document being edited
+   * @param   {Position}          position  The position of the cursor
+   *
+   * @return  {CompletionItem[]}            The completion items
+   */
+  protected provideTagCompletionItems(document: TextDocument, position: Position): CompletionItem[] {
+    const prefix = document.lineAt(position.line).text.substr(0, position.character);
+
+    // Either a tag name or the parameter name following `@param`
+    const match = /(?:^|\s)@(\w*)(\s+[\w$]*)?$/.exec(prefix);
+
+    if (!match || (match[2] !== undefined && match[1] !== 'param')) {
+      return [];
+    }
+
+    const parser = Snippets.getParser(document);
+
+    const lines = document.getText().split(/\r?\n/);
+
+    const block = DocBlock.find(lines, position.line, parser.settings.commentOpen.trim());
+
+    if (!block || position.line < block.start || position.line > block.end) {
+      return [];
+    }
+
+    const completion = new Completion(parser);
+
+    // Replace the text typed after the `@` character
+    const range = new Range(position.line, prefix.lastIndexOf('@') + 1, position.line, position.character);
+
+    const items = match[2] === undefined ? completion.getTags().map(({ documentation, name }) => {
+      const item = new CompletionItem(name, CompletionItemKind.Keyword);
+
+      item.documentation = new MarkdownString(documentation);
+      item.range = range;
+
+      return item;
+    }) : [];
+
+    // Keep the spacing typed after `@param` so the items still match
+    const spacing = match[2] === undefined ? ' ' : /^\s+/.exec(match[2])[0];
+
+    for (const { name, snippet, type } of completion.getParams(lines, block)) {
+      const item = new CompletionItem(`param ${name}`, CompletionItemKind.Variable);
+
+      item.detail = type;
+      item.filterText = `param${spacing}${name}`;
+      item.insertText = new SnippetString(snippet.value.substr(1));
+      item.range = range;
+
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * Renders the docblock of the code below the provided position
+   *
+   * @param   {TextDocument}   document  The document being edited
+   * @param   {Position}       position  The position of the docblock
+   *
+   * @return  {SnippetString}            The rendered docblock
+   */
+  protected render(document: TextDocument, position: Position): SnippetString {
+    const parser = Snippets.getParser(document);
+
+    try {
+      // The code below the user's current position is assumed to be the code
+      // we want to tokenize
+      const lines = document.getText().split(/\r?\n/);
+
+      const signature = parser.getSignatureFromLines(lines, position.line + 1);
+
+      return new SnippetString(parser.renderBlock(parser.getSymbols(signature)).value);
+    } catch (error) {
+      if (error instanceof Error) {
+        window.showErrorMessage(error.message);
+      }
+
+      // If no valid token was created, create an empty doc block string
+      return new SnippetString(parser.renderEmptyBlock().value);
+    }
+  }
+
+  /**
+   * Reads the configuration of docblocks from the extension's settings
+   *
+   * @param   {TextDocument}    document  The document to resolve resource and
+   *                                      language specific settings for
+   *
+   * @return  {IConfiguration}            The configuration
+   */
+  protected static readConfiguration(document?: TextDocument): IConfiguration {
+    const config = workspace.getConfiguration('vs-docblockr', document);
+
+    return {
+      alignTags: config.get('alignTags'),
+      columnSpacing: config.get('columnSpacing'),
+      commentStyle: config.get('commentStyle'),
+      dateFormat: config.get('dateFormat'),
+      defaultReturnTag: config.get('defaultReturnTag'),
+      defaultValues: config.get('defaultValues'),
+      destructuredName: config.get('destructuredName'),
+      dialects: config.get('dialects'),
+      extraTags: config.get('extraTags'),
+      jsdocTypes: config.get('jsdocTypes'),
+      locale: config.get('locale') || env.language,
+      newLinesBetweenTags: config.get('newLinesBetweenTags'),
+      scssCommentClose: config.get('scssCommentClose'),
+      scssCommentOpen: config.get('scssCommentOpen'),
+      scssCommentSeparator: config.get('scssCommentSeparator'),
+      templates: config.get('templates'),
+    };
+  }
+
   /**
    * Reverse the provided selection if it has multiple lines
    *
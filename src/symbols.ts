@@ -1,26 +1,67 @@
-import { SymbolKind } from 'vscode';
+/**
+ * Kinds of symbols, numbered like the symbol kinds of editors such as VS Code
+ */
+export enum SymbolKind {
+  File = 0,
+  Namespace = 2,
+  Class = 4,
+  Function = 11,
+  Variable = 12,
+}
 
 /**
  * Describes a function parameter
  */
 export interface IParam {
+  /**
+   * Whether the parameter is passed by reference, such as `&$out` in PHP
+   */
+  byRef?: boolean;
+
+  /**
+   * The parameter's description, when already documented
+   */
+  description?: string;
+
+  /**
+   * Whether the type was inferred from the default value rather than declared
+   */
+  inferred?: boolean;
+
   /**
    * The parameter's name
    */
   name: string;
 
+  /**
+   * Whether the parameter can be left out, such as `x?: number`. Parameters
+   * with a default value are optional as well
+   */
+  optional?: boolean;
+
+  /**
+   * Whether the parameter collects the remaining arguments, such as
+   * `...args`. Its type is the type of each argument
+   */
+  rest?: boolean;
+
   /**
    * The parameter's type
    */
   type?: string;
 
   /**
-   * The parameter's value
+   * The parameter's default value, as written in the code
    */
   val?: string;
 }
 
 interface IReturnToken {
+  /**
+   * The return value's description, when already documented
+   */
+  description?: string;
+
   /**
    * Describes what type of return value. (Optional)
    */
@@ -31,6 +72,11 @@ interface IReturnToken {
  * Represents a segment of code
  */
 export class Symbols {
+  /**
+   * Modifiers preceding the symbol, such as `export` or `private`
+   */
+  public modifiers: string[] = [];
+
   /**
    * Name of code symbol
    */
@@ -0,0 +1,258 @@
+import { Snippet } from './snippet';
+
+/**
+ * Describes a segment of a template line
+ */
+export interface ISegment {
+  /**
+   * Segments nested in a tab-stop placeholder
+   */
+  children?: ISegment[];
+
+  /**
+   * The kind of segment
+   */
+  kind: 'placeholder' | 'text' | 'variable';
+
+  /**
+   * The text of a text segment, or the name of a variable segment
+   */
+  value?: string;
+}
+
+/**
+ * Values available while rendering a template
+ */
+export interface ITemplateContext {
+  /**
+   * End of line string
+   */
+  eos: string;
+
+  /**
+   * Renders sections spanning whole lines, such as the parameter tags. Each
+   * line rendered is preceded by `eos`
+   */
+  sections: { [name: string]: (snippet: Snippet) => void };
+
+  /**
+   * The characters beginning each docblock line
+   */
+  separator: string;
+
+  /**
+   * Values of the variables used in template lines, undefined for variables
+   * that could not be resolved
+   */
+  variables: { [name: string]: string };
+}
+
+/**
+ * Represents the layout of a docblock
+ *
+ * Each template line becomes a docblock line. Lines may contain variables,
+ * such as `${name}`, and tab-stop placeholders, such as `${:[${name} summary]}`.
+ * A line consisting of a single section variable, such as `${params}`, is
+ * replaced by the lines of that section. Blank lines are only rendered between
+ * lines with content, so templates can separate sections that may be empty.
+ */
+export class Template {
+  /**
+   * The template lines
+   */
+  public lines: string[];
+
+  /**
+   * Sets up the template
+   *
+   * @param  {string|string[]}  template  The template lines, or a string with
+   *                                      lines separated by new lines
+   */
+  constructor(template: string | string[]) {
+    this.lines = Array.isArray(template) ? template : template.split(/\r?\n/);
+  }
+
+  /**
+   * Renders the template lines to the provided snippet
+   *
+   * @param  {Snippet}           snippet  The snippet to render to
+   * @param  {ITemplateContext}  context  The values to render
+   */
+  public render(snippet: Snippet, context: ITemplateContext): void {
+    const { eos, separator } = context;
+
+    let hasContent = false;
+    let hasBlank = false;
+
+    for (const line of this.lines) {
+      if (!line.trim()) {
+        hasBlank = hasContent;
+
+        continue;
+      }
+
+      const section = this.getSection(line, context);
+
+      // Sections without any lines are skipped along with their blank lines
+      if (section) {
+        const probe = new Snippet();
+
+        section(probe);
+
+        if (!probe.value) {
+          hasBlank = false;
+
+          continue;
+        }
+      }
+
+      if (hasBlank) {
+        snippet.appendText(eos + separator.trimRight());
+      }
+
+      if (section) {
+        section(snippet);
+      } else {
+        snippet.appendText(eos + separator);
+
+        this.renderSegments(Template.parse(line), snippet, context);
+      }
+
+      hasContent = true;
+      hasBlank = false;
+    }
+  }
+
+  /**
+   * Splits a template line into segments
+   *
+   * @param   {string}      line  The template line
+   *
+   * @return  {ISegment[]}        The segments of the line
+   */
+  public static parse(line: string): ISegment[] {
+    const segments: ISegment[] = [];
+
+    let text = '';
+    let index = 0;
+
+    while (index < line.length) {
+      const end = line.startsWith('${', index) ? Template.findClosingBrace(line, index + 2) : -1;
+
+      if (end < 0) {
+        text += line[index++];
+
+        continue;
+      }
+
+      const content = line.substring(index + 2, end);
+
+      if (text) {
+        segments.push({ kind: 'text', value: text });
+        text = '';
+      }
+
+      if (content.startsWith(':')) {
+        segments.push({ children: Template.parse(content.substr(1)), kind: 'placeholder' });
+      } else {
+        segments.push({ kind: 'variable', value: content });
+      }
+
+      index = end + 1;
+    }
+
+    if (text) {
+      segments.push({ kind: 'text', value: text });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Retrieves the section a template line consists of
+   *
+   * @param   {string}            line     The template line
+   * @param   {ITemplateContext}  context  The values to render
+   *
+   * @return  {Function}                   The section renderer, undefined if
+   *                                       the line is not a section
+   */
+  protected getSection(line: string, context: ITemplateContext): (snippet: Snippet) => void {
+    const match = /^\$\{(\w+)\}$/.exec(line.trim());
+
+    if (match && Object.prototype.hasOwnProperty.call(context.sections, match[1])) {
+      return context.sections[match[1]];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Renders segments to the provided snippet
+   *
+   * @param  {ISegment[]}        segments  The segments to render
+   * @param  {Snippet}           snippet   The snippet to render to
+   * @param  {ITemplateContext}  context   The values to render
+   */
+  protected renderSegments(segments: ISegment[], snippet: Snippet, context: ITemplateContext): void {
+    for (const segment of segments) {
+      if (segment.kind === 'placeholder') {
+        snippet.appendPlaceholder(this.renderText(segment.children, context));
+      } else {
+        snippet.appendText(this.renderText([segment], context));
+      }
+    }
+  }
+
+  /**
+   * Renders segments as plain text
+   *
+   * @param   {ISegment[]}        segments  The segments to render
+   * @param   {ITemplateContext}  context   The values to render
+   *
+   * @return  {string}                      The rendered text
+   */
+  protected renderText(segments: ISegment[], context: ITemplateContext): string {
+    return segments.map((segment) => {
+      if (segment.kind === 'placeholder') {
+        return this.renderText(segment.children, context);
+      }
+
+      if (segment.kind === 'variable') {
+        const { variables } = context;
+
+        const value = Object.prototype.hasOwnProperty.call(variables, segment.value)
+          ? variables[segment.value]
+          : undefined;
+
+        // Unknown and unresolved variables are rendered as they were written
+        return value !== undefined ? value : `\${${segment.value}}`;
+      }
+
+      return segment.value;
+    }).join('');
+  }
+
+  /**
+   * Finds the brace closing a variable or placeholder
+   *
+   * @param   {string}  line   The template line
+   * @param   {number}  start  The index following the opening brace
+   *
+   * @return  {number}         The index of the closing brace, -1 if the brace
+   *                           is never closed
+   */
+  protected static findClosingBrace(line: string, start: number): number {
+    let depth = 1;
+
+    for (let i = start; i < line.length; i++) {
+      if (line[i] === '{') {
+        depth++;
+      } else if (line[i] === '}' && --depth === 0) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+}
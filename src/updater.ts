@@ -0,0 +1,273 @@
+import { Checker } from './checker';
+import { DocBlock, ITag } from './docblock';
+import { Parser } from './parser';
+import { Snippet } from './snippet';
+import { IParam, Symbols, SymbolKind } from './symbols';
+import { Template } from './template';
+
+/**
+ * Synchronizes existing docblocks with the code they document
+ */
+export class Updater {
+  /**
+   * Tags that are regenerated from the code signature
+   */
+  public static readonly generatedTags = [
+    'enum',
+    'param',
+    'return',
+    'returns',
+    'type',
+    'var',
+  ];
+
+  /**
+   * Tags that describe the symbol rather than its signature
+   */
+  public static readonly summaryTags = [
+    'brief',
+    'description',
+    'details',
+    'summary',
+  ];
+
+  /**
+   * Language specific code parser
+   */
+  protected parser: Parser;
+
+  /**
+   * Sets up the updater with the language parser of the document
+   *
+   * @param  {Parser}  parser  Code parser
+   */
+  public constructor(parser: Parser) {
+    this.parser = parser;
+  }
+
+  /**
+   * Locates and parses the docblock at or directly above the provided line
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {number}    line   The line to start searching from
+   *
+   * @return  {DocBlock}         The parsed docblock, undefined if no docblock
+   *                             was found
+   */
+  public findBlock(lines: string[], line: number): DocBlock {
+    const range = DocBlock.find(lines, line, this.parser.settings.commentOpen.trim());
+
+    return range ? DocBlock.parse(lines, range, this.parser.dialect.types) : undefined;
+  }
+
+  /**
+   * Renders the docblock with its generated tags synchronized with the symbols
+   * parsed from the code
+   *
+   * @param   {DocBlock}  block    The existing docblock
+   * @param   {Symbols}   symbols  The symbols parsed from the code
+   *
+   * @return  {Snippet}            The updated docblock
+   */
+  public renderUpdatedBlock(block: DocBlock, symbols: Symbols): Snippet {
+    const { tags } = block;
+
+    this.mergeDescriptions(tags, symbols);
+
+    const isGenerated = (tag: ITag) => Updater.generatedTags.includes(tag.tag);
+    const isTrailing = (tag: ITag) => !Updater.summaryTags.includes(tag.tag);
+
+    // Generated tags replace the first of the existing ones. Without any, they
+    // precede the remaining tags
+    let index = tags.findIndex(isGenerated);
+
+    if (index < 0) {
+      index = tags.findIndex(isTrailing);
+    }
+
+    if (index < 0) {
+      index = tags.length;
+    }
+
+    const { commentClose, commentOpen, eos, separator } = this.parser.settings;
+
+    const snippet = new Snippet(commentOpen);
+
+    const appendLines = (lines: string[]) => {
+      for (const line of lines) {
+        snippet.appendText(eos + (line ? separator + line : separator.trimRight()));
+      }
+    };
+
+    const appendTags = (items: ITag[]) => {
+      for (const tag of items) {
+        appendLines(tag.spaced ? ['', ...block.serializeTag(tag)] : block.serializeTag(tag));
+      }
+    };
+
+    appendLines(block.serializeText());
+
+    appendTags(tags.slice(0, index));
+
+    if (symbols.name && symbols.type) {
+      const blank = this.parser.newLinesBetweenTags ? [''] : [];
+
+      appendLines(blank);
+
+      const template = new Template(['${params}', ...blank, '${return}', ...blank, '${var}']);
+
+      this.parser.renderTemplate(template, symbols, snippet);
+    }
+
+    appendTags(tags.slice(index).filter((tag) => !isGenerated(tag)));
+
+    snippet.appendText(eos + commentClose);
+
+    return this.removeExtraLines(Parser.removeTrailingWhiteSpace(snippet));
+  }
+
+  /**
+   * Renders the docblock at or above the provided line, synchronized with the
+   * code following it
+   *
+   * @param   {string[]}  lines  The lines of the document
+   * @param   {number}    line   The line to search for the docblock from
+   *
+   * @throws  {Error}            When no docblock was found, or the code
+   *                             following it could not be parsed
+   *
+   * @return  {object}           The existing docblock and its update
+   */
+  public update(lines: string[], line: number): { block: DocBlock, snippet: Snippet } {
+    const block = this.findBlock(lines, line);
+
+    if (!block) {
+      throw new Error('No docblock was found to update');
+    }
+
+    const signature = this.parser.getSignatureFromLines(lines, block.range.end + 1);
+
+    return { block, snippet: this.renderUpdatedBlock(block, this.parser.getSymbols(signature)) };
+  }
+
+  /**
+   * Applies the types and descriptions already documented to the parsed symbols
+   *
+   * @param  {ITag[]}   tags     The existing docblock tags
+   * @param  {Symbols}  symbols  The symbols parsed from the code
+   */
+  protected mergeDescriptions(tags: ITag[], symbols: Symbols): void {
+    for (const tag of tags) {
+      if (tag.tag === 'param') {
+        this.mergeParameter(tag, symbols);
+      } else if (['return', 'returns'].includes(tag.tag)) {
+        symbols.return.description = this.renderDescription(tag);
+        symbols.return.type = symbols.return.type || this.documentedType(tag.type);
+      } else if (Updater.generatedTags.includes(tag.tag) && symbols.type === SymbolKind.Variable) {
+        symbols.varType = symbols.varType || this.documentedType(tag.type);
+      }
+    }
+  }
+
+  /**
+   * Applies the type and description of a parameter tag to the parameter it
+   * documents
+   *
+   * @param  {ITag}     tag      The parameter tag
+   * @param  {Symbols}  symbols  The symbols parsed from the code
+   */
+  protected mergeParameter(tag: ITag, symbols: Symbols): void {
+    const param = this.findParameter(tag, symbols);
+
+    if (param) {
+      // The description is read once the name of the tag is resolved
+      param.description = this.renderDescription(tag);
+
+      const type = param.type || this.documentedType(tag.type);
+
+      // Parameters without a type keep rendering the type placeholder
+      if (type) {
+        param.type = type;
+      }
+    }
+  }
+
+  /**
+   * Removes blank lines that are repeated or surround the docblock content
+   *
+   * @param   {Snippet}  snippet  The docblock to format
+   *
+   * @return  {Snippet}           The formatted docblock
+   */
+  protected removeExtraLines(snippet: Snippet): Snippet {
+    const blank = this.parser.settings.separator.trim();
+
+    const lines = snippet.value.split(this.parser.settings.eos);
+
+    const result = lines.filter((line, index) => {
+      const isBlank = line.trim() === blank;
+
+      // Keep the comment opening and closing
+      if (!isBlank || index === 0 || index === lines.length - 1) {
+        return true;
+      }
+
+      const previous = lines[index - 1].trim();
+
+      return index !== 1 && index !== lines.length - 2 && previous !== blank;
+    });
+
+    return new Snippet(result.join(this.parser.settings.eos));
+  }
+
+  /**
+   * Renders the description of a tag for the updated docblock
+   *
+   * @param   {ITag}    tag  The tag
+   *
+   * @return  {string}       The description, undefined if the tag has none
+   */
+  protected renderDescription(tag: ITag): string {
+    const { eos, separator } = this.parser.settings;
+
+    // Multi-line descriptions are rendered onto separate docblock lines
+    return tag.description.split('\n').join(eos + separator) || undefined;
+  }
+
+  /**
+   * Retrieves a documented type, ignoring the type placeholder
+   *
+   * @param   {string}  type  The documented type
+   *
+   * @return  {string}        The type, empty if it was not documented
+   */
+  private documentedType(type: string): string {
+    return type && type !== this.parser.typePlaceholder ? type : '';
+  }
+
+  /**
+   * Finds the parameter a parameter tag documents
+   *
+   * Without braces, a lone parameter name can be mistaken for a type. The tag
+   * is corrected when its type turns out to be a parameter name.
+   *
+   * @param   {ITag}     tag      The parameter tag
+   * @param   {Symbols}  symbols  The symbols parsed from the code
+   *
+   * @return  {IParam}            The documented parameter, undefined if the
+   *                              parameter no longer exists
+   */
+  private findParameter(tag: ITag, symbols: Symbols): IParam {
+    const normalize = Checker.normalizeName;
+
+    const find = (name: string) => symbols.params.find((param) => name && normalize(param.name) === normalize(name));
+
+    if (!find(tag.name) && find(tag.type)) {
+      tag.description = [tag.name, tag.description].filter((item) => item).join(' ');
+      tag.name = tag.type;
+      tag.type = undefined;
+    }
+
+    return find(tag.name);
+  }
+}
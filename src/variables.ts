@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Resolves the values of variables available to extra tags and templates
+ *
+ * Values are read from the files surrounding the document, so no external
+ * commands are run. Variables that cannot be resolved are undefined.
+ */
+export class Variables {
+  /**
+   * Manifests that may declare the version of a project
+   */
+  public static manifests = [
+    'package.json',
+    'composer.json',
+  ];
+
+  /**
+   * Variables read from the files of a project, such as the git user
+   */
+  public static projectVariables = [
+    'gitEmail',
+    'gitName',
+    'version',
+  ];
+
+  /**
+   * Contents of the files read so far, keyed by path, along with the state of
+   * the file they were read from
+   */
+  protected static cache: { [file: string]: { contents: string, modified: number, size: number } } = {};
+
+  /**
+   * Format of the `date` variable, such as `YYYY-MM-DD`
+   */
+  public dateFormat: string;
+
+  /**
+   * Path of the document being documented
+   */
+  public fileName: string;
+
+  /**
+   * Sets up variables for the provided document
+   *
+   * @param  {string}  fileName    Path of the document being documented
+   * @param  {string}  dateFormat  Format of the `date` variable
+   */
+  constructor(fileName: string, dateFormat = 'YYYY-MM-DD') {
+    this.fileName = fileName || '';
+    this.dateFormat = dateFormat;
+  }
+
+  /**
+   * Resolves the value of each available variable
+   *
+   * Project variables are only read once referenced, from the files nearest
+   * to the document.
+   *
+   * @return  {object}  The resolved values keyed by variable name
+   */
+  public resolve(): { [name: string]: string } {
+    const variables: { [name: string]: string } = {
+      date: Variables.formatDate(new Date(), this.dateFormat),
+    };
+
+    if (this.fileName) {
+      variables.baseName = path.parse(this.fileName).name.replace(/^_+/, '');
+      variables.fileName = path.basename(this.fileName);
+    }
+
+    for (const name of Variables.projectVariables) {
+      Object.defineProperty(variables, name, { enumerable: true, get: () => this.getProjectVariable(name) });
+    }
+
+    return variables;
+  }
+
+  /**
+   * Formats a date using the `YYYY`, `MM`, `DD`, `HH`, `mm` and `ss` tokens
+   *
+   * @param   {Date}    date    The date to format
+   * @param   {string}  format  The format, such as `YYYY-MM-DD`
+   *
+   * @return  {string}          The formatted date
+   */
+  public static formatDate(date: Date, format: string): string {
+    const pad = (value: number) => `0${value}`.slice(-2);
+
+    const tokens: { [token: string]: string } = {
+      DD: pad(date.getDate()),
+      HH: pad(date.getHours()),
+      MM: pad(date.getMonth() + 1),
+      YYYY: `${date.getFullYear()}`,
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds()),
+    };
+
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+  }
+
+  /**
+   * Parses the `user` section of a git configuration file
+   *
+   * @param   {string}  config  The contents of the configuration file
+   *
+   * @return  {object}          The user's name and email, if configured
+   */
+  public static parseGitUser(config: string): { email?: string, name?: string } {
+    const user: { email?: string, name?: string } = {};
+
+    let section = '';
+
+    for (const line of config.split(/\r?\n/)) {
+      const header = /^\s*\[\s*([^\]\s]+)[^\]]*\]/.exec(line);
+
+      if (header) {
+        section = header[1].toLowerCase();
+
+        continue;
+      }
+
+      const entry = /^\s*(name|email)\s*=\s*(.*?)\s*$/i.exec(line);
+
+      if (section === 'user' && entry) {
+        user[entry[1].toLowerCase()] = entry[2].replace(/^"(.*)"$/, '$1');
+      }
+    }
+
+    return user;
+  }
+
+  /**
+   * Searches the directory of the document and its parents for a file
+   *
+   * @param   {string[]}  names  The names of the file, in order of preference
+   *
+   * @return  {string}           The path of the nearest file, undefined if
+   *                             not found
+   */
+  protected findUp(names: string[]): string {
+    if (!this.fileName) {
+      return undefined;
+    }
+
+    let directory = path.dirname(path.resolve(this.fileName));
+
+    for (;;) {
+      const candidate = names.map((name) => path.join(directory, name)).find((file) => fs.existsSync(file));
+
+      if (candidate) {
+        return candidate;
+      }
+
+      const parent = path.dirname(directory);
+
+      if (parent === directory) {
+        return undefined;
+      }
+
+      directory = parent;
+    }
+  }
+
+  /**
+   * Retrieves the git user, preferring the repository's configuration over
+   * the global configuration
+   *
+   * @return  {object}  The user's name and email, if configured
+   */
+  protected getGitUser(): { email?: string, name?: string } {
+    const home = os.homedir();
+
+    const files = [
+      path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), 'git', 'config'),
+      path.join(home, '.gitconfig'),
+    ];
+
+    let repository = this.findUp(['.git']);
+
+    // Worktrees and submodules link to their git directory from a file
+    const link = repository && /^gitdir:\s*(.+)$/m.exec(this.readFile(repository));
+
+    if (link) {
+      repository = path.resolve(path.dirname(repository), link[1].trim());
+    }
+
+    if (repository) {
+      files.push(path.join(repository, 'config'));
+    }
+
+    // Later files take precedence, as they do for git
+    return files.reduce((user, file) => {
+      return Object.assign(user, Variables.parseGitUser(this.readFile(file)));
+    }, {});
+  }
+
+  /**
+   * Retrieves the value of a project variable
+   *
+   * @param   {string}  name  The variable name, such as `version`
+   *
+   * @return  {string}        The value, undefined if it could not be resolved
+   */
+  protected getProjectVariable(name: string): string {
+    if (name === 'version') {
+      return this.getVersion();
+    }
+
+    const { email, name: user } = this.getGitUser();
+
+    return name === 'gitEmail' ? email : user;
+  }
+
+  /**
+   * Retrieves the version declared by the nearest project manifest, such as
+   * `package.json`
+   *
+   * @return  {string}  The version, undefined if none was declared
+   */
+  protected getVersion(): string {
+    const file = this.findUp(Variables.manifests);
+
+    try {
+      const { version } = JSON.parse(this.readFile(file));
+
+      return typeof version === 'string' ? version : undefined;
+    } catch (error) {
+      // Missing or malformed manifests are ignored
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads a file, ignoring files that cannot be read
+   *
+   * Contents are cached until the file is modified, such as when the version
+   * of the project is bumped.
+   *
+   * @param   {string}  file  The path of the file
+   *
+   * @return  {string}        The contents of the file, empty if unreadable
+   */
+  protected readFile(file: string): string {
+    try {
+      const stats = fs.statSync(file);
+
+      if (!stats.isFile()) {
+        return '';
+      }
+
+      const cached = Variables.cache[file];
+
+      if (!cached || cached.modified !== stats.mtimeMs || cached.size !== stats.size) {
+        Variables.cache[file] = { contents: fs.readFileSync(file, 'utf8'), modified: stats.mtimeMs, size: stats.size };
+      }
+
+      return Variables.cache[file].contents;
+    } catch (error) {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Measures text the way it is displayed in a monospaced editor
+ *
+ * Full-width characters, such as those of Chinese, Japanese and Korean, take
+ * two columns, combining marks take none and tabs extend to the next tab stop.
+ */
+export class Width {
+  /**
+   * Ranges of code points taking two columns, from the wide and full-width
+   * East Asian width classes
+   */
+  public static readonly wide: Array<[number, number]> = [
+    [0x1100, 0x115F],
+    [0x231A, 0x231B],
+    [0x2329, 0x232A],
+    [0x2E80, 0x303E],
+    [0x3041, 0x33FF],
+    [0x3400, 0x4DBF],
+    [0x4E00, 0x9FFF],
+    [0xA000, 0xA4CF],
+    [0xA960, 0xA97F],
+    [0xAC00, 0xD7A3],
+    [0xF900, 0xFAFF],
+    [0xFE10, 0xFE19],
+    [0xFE30, 0xFE6F],
+    [0xFF00, 0xFF60],
+    [0xFFE0, 0xFFE6],
+    [0x1F300, 0x1F64F],
+    [0x1F900, 0x1F9FF],
+    [0x20000, 0x2FFFD],
+    [0x30000, 0x3FFFD],
+  ];
+
+  /**
+   * Ranges of code points taking no column, such as combining marks,
+   * zero-width spaces and variation selectors
+   */
+  public static readonly zero: Array<[number, number]> = [
+    [0x0300, 0x036F],
+    [0x0483, 0x0489],
+    [0x0591, 0x05BD],
+    [0x0610, 0x061A],
+    [0x064B, 0x065F],
+    [0x1AB0, 0x1AFF],
+    [0x1DC0, 0x1DFF],
+    [0x200B, 0x200F],
+    [0x20D0, 0x20FF],
+    [0x3099, 0x309A],
+    [0xFE00, 0xFE0F],
+    [0xFE20, 0xFE2F],
+    [0xE0100, 0xE01EF],
+  ];
+
+  /**
+   * Measures the number of columns a code point takes
+   *
+   * @param   {number}  code  The code point
+   *
+   * @return  {number}        0, 1 or 2
+   */
+  public static ofCharacter(code: number): number {
+    if (Width.inRanges(code, Width.zero)) {
+      return 0;
+    }
+
+    return Width.inRanges(code, Width.wide) ? 2 : 1;
+  }
+
+  /**
+   * Measures the number of columns text takes
+   *
+   * @param   {string}  text     The text to measure, beginning at a tab stop
+   * @param   {number}  tabSize  The number of columns between tab stops
+   *
+   * @return  {number}           The display width of the text
+   */
+  public static of(text: string, tabSize = 4): number {
+    let width = 0;
+
+    for (const character of text) {
+      if (character === '\t') {
+        width += tabSize - (width % tabSize);
+      } else {
+        width += Width.ofCharacter(character.codePointAt(0));
+      }
+    }
+
+    return width;
+  }
+
+  /**
+   * Pads text with spaces up to a display width
+   *
+   * @param   {string}  text   The text to pad
+   * @param   {number}  width  The width to reach
+   *
+   * @return  {string}         The padded text
+   */
+  public static pad(text: string, width: number): string {
+    return text + ' '.repeat(Math.max(width - Width.of(text), 0));
+  }
+
+  /**
+   * Checks whether a code point is within any of the provided ranges
+   *
+   * @param   {number}           code    The code point
+   * @param   {Array<number[]>}  ranges  The inclusive ranges
+   *
+   * @return  {boolean}                  True if the code point is within a
+   *                                     range
+   */
+  protected static inRanges(code: number, ranges: Array<[number, number]>): boolean {
+    return ranges.some(([start, end]) => code >= start && code <= end);
+  }
+}
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { CodeActionKind, Diagnostic, Range, TextDocument, workspace } from 'vscode';
+
+import { Actions } from '../src/actions';
+import { Diagnostics } from '../src/diagnostics';
+import { TypeScript } from '../src/languages/typescript';
+
+import config from './defaultConfiguration';
+
+const parser = new TypeScript();
+
+parser.style = config.style;
+parser.columnCount = config.columnSpacing;
+
+const actions = new Actions(parser);
+
+/**
+ * Creates a diagnostic as reported by `Diagnostics`
+ *
+ * @param   {number}      line  The line of the diagnostic
+ * @param   {string}      code  The code of the diagnostic
+ *
+ * @return  {Diagnostic}        The diagnostic
+ */
+function createDiagnostic(line: number, code: string): Diagnostic {
+  const diagnostic = new Diagnostic(new Range(line, 0, line, 1), 'Problem');
+
+  diagnostic.code = code;
+  diagnostic.source = 'vs-docblockr';
+
+  return diagnostic;
+}
+
+suite('Actions', () => {
+  suite('provideCodeActions', () => {
+    let document: TextDocument;
+
+    setup(async () => {
+      const content = [
+        'class Foo {',
+        '  /**',
+        '   * Bar',
+        '   *',
+        '   * @param  {string}  old  Renamed',
+        '   */',
+        '  bar(baz: string): void {}',
+        '',
+        '  @decorated',
+        '  qux() {}',
+        '}',
+      ].join('\n');
+
+      document = await workspace.openTextDocument({ content, language: 'typescript' });
+    });
+
+    test('should add docblocks above decorators', async () => {
+      const diagnostics = [createDiagnostic(9, Diagnostics.code)];
+
+      const range = diagnostics[0].range;
+
+      const [action] = actions.provideCodeActions(document, range, { diagnostics, only: undefined });
+
+      assert.strictEqual(action.title, 'Add docblock');
+      assert.strictEqual(action.kind.value, CodeActionKind.QuickFix.value);
+
+      await workspace.applyEdit(action.edit);
+
+      const lines = document.getText().split('\n');
+
+      assert.strictEqual(lines[8], '  /**');
+      assert.ok(lines.indexOf('  @decorated') > lines.indexOf('   */', 8));
+    });
+
+    test('should sync stale docblocks with their signature', async () => {
+      const diagnostics = [createDiagnostic(4, 'unknown-param'), createDiagnostic(6, 'missing-param')];
+
+      const result = actions.provideCodeActions(document, diagnostics[0].range, { diagnostics, only: undefined });
+
+      assert.strictEqual(result[0].title, 'Sync docblock with signature');
+
+      await workspace.applyEdit(result[0].edit);
+
+      const text = document.getText();
+
+      assert.ok(/^ {3}\* +@param +\{string\} +baz/m.test(text));
+      assert.ok(!text.includes('old'));
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+
+import { Aligner } from '../src/aligner';
+import { Java } from '../src/languages/java';
+
+const block = [
+  '  /**',
+  '   * Summary',
+  '   *',
+  '   * @param {string} foo The foo',
+  '   *   continued',
+  '   * @param   {number|undefined}    barbaz      The bar',
+  '   *',
+  '   * @see other',
+  '   * @return {boolean} The result',
+  '   */',
+];
+
+suite('Aligner', () => {
+  suite('align', () => {
+    test('should align the type, name and description columns', () => {
+      const aligner = new Aligner({ align: true, columnSpacing: 2, drupal: false, types: true });
+
+      assert.deepStrictEqual(aligner.align(block), [
+        '  /**',
+        '   * Summary',
+        '   *',
+        '   * @param   {string}            foo     The foo',
+        '   *                                      continued',
+        '   * @param   {number|undefined}  barbaz  The bar',
+        '   *',
+        '   * @see other',
+        '   * @return  {boolean}                   The result',
+        '   */',
+      ]);
+    });
+
+    test('should separate columns by single spaces when not aligned', () => {
+      const aligner = new Aligner({ align: false, columnSpacing: 2, drupal: false, types: true });
+
+      assert.deepStrictEqual(aligner.align(block), [
+        '  /**',
+        '   * Summary',
+        '   *',
+        '   * @param {string} foo The foo',
+        '   * continued',
+        '   * @param {number|undefined} barbaz The bar',
+        '   *',
+        '   * @see other',
+        '   * @return {boolean} The result',
+        '   */',
+      ]);
+    });
+
+    test('should convert to and from Drupal style', () => {
+      const aligner = new Aligner({ align: true, columnSpacing: 2, drupal: true, types: true });
+
+      const drupal = [
+        '/**',
+        ' * @param {string} foo',
+        ' *   The foo',
+        ' * @return {boolean}',
+        ' *   The result',
+        ' */',
+      ];
+
+      const lines = ['/**', ' * @param {string} foo The foo', ' * @return {boolean} The result', ' */'];
+
+      assert.deepStrictEqual(aligner.align(lines), drupal);
+
+      aligner.options.drupal = false;
+
+      assert.deepStrictEqual(aligner.align(drupal), [
+        '/**',
+        ' * @param   {string}   foo  The foo',
+        ' * @return  {boolean}       The result',
+        ' */',
+      ]);
+    });
+
+    test('should follow the return type by its description without parameters', () => {
+      const aligner = new Aligner({ align: true, columnSpacing: 1, drupal: false, types: true });
+
+      assert.deepStrictEqual(aligner.align(['/**', ' * @return {boolean} The result', ' */']), [
+        '/**',
+        ' * @return {boolean} The result',
+        ' */',
+      ]);
+    });
+
+    test('should align columns by the display width of full-width characters', () => {
+      const aligner = new Aligner({ align: true, columnSpacing: 2, drupal: false, types: true });
+
+      const lines = ['/**', ' * @param {[型]} 名前 [名前 の説明]', ' * @param {string} foo [foo の説明]', ' */'];
+
+      assert.deepStrictEqual(aligner.align(lines), [
+        '/**',
+        ' * @param   {[型]}    名前  [名前 の説明]',
+        ' * @param   {string}  foo   [foo の説明]',
+        ' */',
+      ]);
+    });
+
+    test('should not read descriptions as types in typeless dialects', () => {
+      const aligner = new Aligner({ align: true, columnSpacing: 2, drupal: false, types: false });
+
+      const lines = ['/**', ' * Summary', ' *', ' * @param a the a', ' * @return the thing', ' */'];
+
+      assert.deepStrictEqual(aligner.align(lines), [
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * @param   a  the a',
+        ' * @return     the thing',
+        ' */',
+      ]);
+    });
+
+    test('should align typeless tags for dialects without types', () => {
+      assert.strictEqual(Aligner.fromParser(new Java()).options.types, false);
+    });
+
+    test('should leave docblocks without aligned tags unchanged', () => {
+      const aligner = new Aligner({ align: true, columnSpacing: 2, drupal: false, types: true });
+
+      const lines = ['/**', ' * Summary', ' * @see  other', ' */'];
+
+      assert.strictEqual(aligner.align(lines), lines);
+    });
+  });
+});
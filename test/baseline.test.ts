@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { Baseline } from '../src/baseline';
+import { IViolation } from '../src/linter';
+
+/**
+ * Creates an undocumented declaration violation
+ *
+ * @param   {string}      symbol  Name of the declaration
+ * @param   {number}      line    The line of the declaration
+ *
+ * @return  {IViolation}          The violation
+ */
+function undocumented(symbol: string, line: number): IViolation {
+  return { code: 'undocumented', end: 9, line, message: `Missing docblock for function ${symbol}`, start: 6, symbol };
+}
+
+suite('Baseline', () => {
+  suite('filter', () => {
+    test('should leave out known problems regardless of their line', () => {
+      const baseline = Baseline.create([{ file: 'foo.ts', violations: [undocumented('foo', 1)] }]);
+
+      const files = baseline.filter([
+        { file: 'bar.ts', violations: [undocumented('foo', 1)] },
+        { file: 'foo.ts', violations: [undocumented('foo', 5), undocumented('bar', 9)] },
+      ]);
+
+      assert.deepStrictEqual(files.map((item) => item.violations.map((violation) => violation.symbol)), [
+        ['foo'],
+        ['bar'],
+      ]);
+    });
+
+    test('should report occurrences beyond the recorded count', () => {
+      const baseline = Baseline.create([{ file: 'foo.ts', violations: [undocumented('foo', 1)] }]);
+
+      const [file] = baseline.filter([{ file: 'foo.ts', violations: [undocumented('foo', 1), undocumented('foo', 5)] }]);
+
+      assert.deepStrictEqual(file.violations.map((violation) => violation.line), [5]);
+    });
+  });
+
+  suite('serialize', () => {
+    test('should leave out lines and columns', () => {
+      const baseline = Baseline.create([{ file: 'foo.ts', violations: [undocumented('foo', 1)] }]);
+
+      assert.deepStrictEqual(JSON.parse(baseline.serialize()), {
+        entries: [{ code: 'undocumented', file: 'foo.ts', message: 'Missing docblock for function foo', symbol: 'foo' }],
+        version: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import * as assert from 'assert';
+
+import { Checker } from '../src/checker';
+import { DocBlock } from '../src/docblock';
+import { C } from '../src/languages/c';
+import { Java } from '../src/languages/java';
+import { PHP } from '../src/languages/php';
+import { TypeScript } from '../src/languages/typescript';
+import { Parser } from '../src/parser';
+
+const typescript = new TypeScript();
+const checker = new Checker(typescript);
+
+/**
+ * Checks the docblock preceding a TypeScript declaration
+ *
+ * @param   {string[]}  block      The docblock lines
+ * @param   {string}    signature  The declaration following the docblock
+ *
+ * @return  {string[]}             The codes of the problems found
+ */
+function check(block: string[], signature: string): string[] {
+  return checker.check(DocBlock.parse(block), typescript.getSymbols(signature)).map((problem) => problem.code);
+}
+
+suite('Checker', () => {
+  suite('check', () => {
+    test('should not report docblocks matching the signature', () => {
+      const block = [
+        '/**',
+        ' * Foo',
+        ' *',
+        ' * @param   {string}  bar  The bar',
+        ' * @param   {number}  baz  The baz',
+        ' *',
+        ' * @return  {boolean}      The result',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function foo(bar: string, baz: number): boolean {'), []);
+    });
+
+    test('should report missing and unknown parameters', () => {
+      const block = [
+        '/**',
+        ' * @param  {string}  foo  The renamed parameter',
+        ' * @param  {object}  foo.name  A property of the parameter',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function qux(bar: string) {'), ['unknown-param', 'missing-param']);
+    });
+
+    test('should report parameters documented out of order', () => {
+      const block = [
+        '/**',
+        ' * @param  {number}  baz  The baz',
+        ' * @param  {string}  bar  The bar',
+        ' */',
+      ];
+
+      const [problem] = checker.check(DocBlock.parse(block), typescript.getSymbols('function foo(bar, baz) {'));
+
+      assert.strictEqual(problem.code, 'param-order');
+      assert.strictEqual(problem.tag.name, 'bar');
+    });
+
+    test('should report mismatched types', () => {
+      const block = [
+        '/**',
+        ' * @param   {number}  bar  The bar',
+        ' * @param   {[type]}  baz  The baz',
+        ' *',
+        ' * @return  {string}       The result',
+        ' */',
+      ];
+
+      const signature = 'function foo(bar: string, baz: number): number {';
+
+      assert.deepStrictEqual(check(block, signature), ['type-mismatch', 'type-mismatch']);
+    });
+
+    test('should match equivalent forms of types', () => {
+      const block = [
+        '/**',
+        ' * @param   {Object}    bar   The bar',
+        ' * @param   {string[]}  baz   The baz',
+        ' * @param   {?string}   fizz  The fizz',
+        ' * @param   {Function}  buzz  The buzz',
+        ' *',
+        ' * @return  {Promise}         The result',
+        ' */',
+      ];
+
+      const signature = 'function foo(bar: object, baz: Array<string>, fizz: null | string, buzz: () => void): Promise<void> {';
+
+      assert.deepStrictEqual(check(block, signature), []);
+    });
+
+    test('should not compare structural types', () => {
+      const block = [
+        '/**',
+        ' * @param   {object}   bar  The bar',
+        ' * @param   {string}   baz  The baz',
+        ' *',
+        ' * @return  {boolean}       The result',
+        ' */',
+      ];
+
+      const signature = 'function foo(bar: { a: number }, baz: keyof Fizz): bar is Buzz {';
+
+      assert.deepStrictEqual(check(block, signature), []);
+    });
+
+    test('should not report types inferred from default values', () => {
+      const block = [
+        '/**',
+        ' * @param  {Array<string>}  [names=[]]  The names',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function foo(names = []) {'), []);
+    });
+
+    test('should match optional and rest parameters', () => {
+      const block = [
+        '/**',
+        ' * @param  {number}     [bar]  The bar',
+        ' * @param  {...string}  fizz   The fizz',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function foo(bar?: number, ...fizz: string[]): void {'), []);
+    });
+
+    test('should report return tags of functions returning void', () => {
+      const block = [
+        '/**',
+        ' * @return  {[type]}  Nothing',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function foo(): void {'), ['superfluous-return']);
+    });
+
+    test('should not report freshly generated docblocks of functions returning void', () => {
+      const tsdoc = new TypeScript();
+
+      tsdoc.languageId = 'typescript';
+      tsdoc.dialects = { typescript: 'tsdoc' };
+
+      const cases: [Parser, string][] = [
+        [new Java(), 'public void foo(int arg1) {'],
+        [typescript, 'constructor(bar: string) {'],
+        [typescript, 'set bar(value: string) {'],
+        [typescript, 'function foo(bar: string): void {'],
+        [tsdoc, 'function foo(bar: string): void {'],
+      ];
+
+      for (const [parser, signature] of cases) {
+        const symbols = parser.getSymbols(signature);
+
+        const lines = parser.renderBlock(symbols).toPlainText().split('\n');
+
+        const block = DocBlock.parse(lines, undefined, parser.dialect.types);
+
+        assert.deepStrictEqual(new Checker(parser).check(block, symbols), [], signature);
+      }
+    });
+
+    test('should not report return tags documenting void', () => {
+      const block = [
+        '/**',
+        ' * @return  {void}  Nothing',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function foo(): void {'), []);
+    });
+
+    test('should match parameters named after types', () => {
+      const block = [
+        '/**',
+        ' * @param   {string}  value   The value',
+        ' * @param   {number}  number  The number',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(check(block, 'function foo(value: string, number = 1): void {'), []);
+      assert.deepStrictEqual(check(block.slice(0, 2).concat(' */'), 'function foo(value: string, number = 1) {'), [
+        'missing-param',
+      ]);
+    });
+
+    test('should not expect parameters of void parameter lists', () => {
+      const c = new C();
+
+      const symbols = c.getSymbols('int foo(void) {');
+
+      assert.deepStrictEqual(new Checker(c).check(DocBlock.parse(['/**', ' * Foo', ' */']), symbols), []);
+    });
+
+    test('should match parameter names without braces', () => {
+      const php = new PHP();
+
+      const block = [
+        '/**',
+        ' * @param  string  $bar  The bar',
+        ' * @param  $baz',
+        ' */',
+      ];
+
+      const symbols = php.getSymbols('function foo(string $bar, &$baz) {');
+
+      assert.deepStrictEqual(new Checker(php).check(DocBlock.parse(block), symbols), []);
+    });
+
+    test('should not read the descriptions of typeless dialects as types', () => {
+      const java = new Java();
+
+      const block = [
+        '/**',
+        ' * @param   arg1  the first',
+        ' * @return  the result',
+        ' */',
+      ];
+
+      const symbols = java.getSymbols('public int foo(int arg1) {');
+
+      assert.deepStrictEqual(new Checker(java).check(DocBlock.parse(block, undefined, false), symbols), []);
+
+      const tsdoc = new TypeScript();
+
+      tsdoc.languageId = 'typescript';
+      tsdoc.dialects = { typescript: 'tsdoc' };
+
+      const tags = ['/**', ' * @returns the result', ' */'];
+
+      const problems = new Checker(tsdoc).check(DocBlock.parse(tags), tsdoc.getSymbols('function foo(): number {'));
+
+      assert.deepStrictEqual(problems, []);
+    });
+
+    test('should match nullable PHP types', () => {
+      const php = new PHP();
+
+      const block = [
+        '/**',
+        ' * @param   string|null  $a  The a',
+        ' *',
+        ' * @return  ?array           The result',
+        ' */',
+      ];
+
+      const symbols = php.getSymbols('function foo(?string $a): ?array {');
+
+      assert.deepStrictEqual(new Checker(php).check(DocBlock.parse(block), symbols), []);
+    });
+  });
+});
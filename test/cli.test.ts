@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+
+import { Cli } from '../src/cli';
+
+suite('Cli', () => {
+  suite('parseArgs', () => {
+    test('should parse options and patterns', () => {
+      const args = ['--format', 'sarif', '--no-stale', '--exclude', 'vendor/**', 'src/**/*.ts', '--public-only'];
+
+      assert.deepStrictEqual(Cli.parseArgs(args), {
+        exclude: ['vendor/**'],
+        format: 'sarif',
+        patterns: ['src/**/*.ts'],
+        publicOnly: true,
+        stale: false,
+        undocumented: true,
+      });
+    });
+
+    test('should reject invalid arguments', () => {
+      assert.throws(() => Cli.parseArgs([]), /No file patterns/);
+      assert.throws(() => Cli.parseArgs(['--format', 'xml', 'src']), /Unknown format: xml/);
+      assert.throws(() => Cli.parseArgs(['--baseline']), /Missing value for --baseline/);
+      assert.throws(() => Cli.parseArgs(['--update-baseline', 'src']), /requires --baseline/);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+
+import { Completion } from '../src/completion';
+import { TypeScript } from '../src/languages/typescript';
+
+const lines = [
+  '/**',
+  ' * Summary',
+  ' *',
+  ' * @param   {string}  bar  [bar description]',
+  ' * @',
+  ' */',
+  'function foo(bar: string, bazinga: number): boolean {',
+  '}',
+];
+
+suite('Completion', () => {
+  suite('getParams', () => {
+    test('should offer aligned tags of the undocumented parameters', () => {
+      const completion = new Completion(new TypeScript());
+
+      const [param, ...rest] = completion.getParams(lines, { end: 5, start: 0 });
+
+      assert.strictEqual(rest.length, 0);
+      assert.strictEqual(param.name, 'bazinga');
+      assert.strictEqual(param.type, 'number');
+      assert.strictEqual(param.snippet.value, '@param   {${1:number}\\}   bazinga  ${2:[bazinga description]}');
+    });
+
+    test('should indent the following lines of Drupal style tags like the current one', () => {
+      const parser = new TypeScript();
+
+      parser.style = 'drupal';
+
+      const [param] = new Completion(parser).getParams(lines, { end: 5, start: 0 });
+
+      assert.strictEqual(param.snippet.value, '@param {${1:number}\\} bazinga\n*    ${2:[bazinga description]}');
+    });
+
+    test('should offer nothing when the declaration cannot be parsed', () => {
+      const completion = new Completion(new TypeScript());
+
+      assert.deepStrictEqual(completion.getParams(['/**', ' * @', ' */'], { end: 2, start: 0 }), []);
+    });
+  });
+
+  suite('getTags', () => {
+    test('should offer the documented tags of the dialect', () => {
+      const parser = new TypeScript();
+
+      parser.languageId = 'typescript';
+      parser.dialects = { typescript: 'tsdoc' };
+
+      const tags = new Completion(parser).getTags();
+
+      assert.ok(tags.some((tag) => tag.name === 'typeParam' && tag.documentation === 'Documents a type parameter'));
+      assert.ok(!tags.some((tag) => tag.name === 'return'));
+    });
+  });
+});
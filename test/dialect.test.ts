@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+
+import { Dialect } from '../src/dialect';
+
+suite('Dialect', () => {
+  suite('resolve', () => {
+    test('should resolve dialect names regardless of case', () => {
+      assert.strictEqual(Dialect.resolve('JSDoc'), 'jsdoc');
+    });
+
+    test('should fall back to the default dialect', () => {
+      assert.strictEqual(Dialect.resolve('rdoc'), Dialect.defaultDialect);
+      assert.strictEqual(Dialect.resolve(undefined), Dialect.defaultDialect);
+    });
+  });
+
+  test('should describe the tags of every dialect', () => {
+    for (const name of Object.keys(Dialect.dialects)) {
+      for (const tag of Dialect.dialects[name].tags) {
+        assert.ok(Object.prototype.hasOwnProperty.call(Dialect.descriptions, tag), `${name} @${tag}`);
+      }
+    }
+  });
+
+  test('should default the empty header to the header', () => {
+    const dialect = new Dialect('tsdoc');
+
+    assert.deepStrictEqual(dialect.emptyHeader, dialect.header);
+    assert.notDeepStrictEqual(new Dialect('sassdoc').emptyHeader, new Dialect('sassdoc').header);
+  });
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+
+import { DocBlock } from '../src/docblock';
+
+suite('DocBlock', () => {
+  suite('find', () => {
+    test('should find the docblock surrounding a line', () => {
+      const lines = [
+        'const foo = 5;',
+        '  /**',
+        '   * Summary',
+        '   */',
+        '  function foo() {}',
+      ];
+
+      assert.deepStrictEqual(DocBlock.find(lines, 2), { end: 3, start: 1 });
+      assert.deepStrictEqual(DocBlock.find(lines, 4), { end: 3, start: 1 });
+      assert.strictEqual(DocBlock.find(lines, 0), undefined);
+    });
+
+    test('should find line comment docblocks', () => {
+      const lines = [
+        '/// Summary',
+        '/// @param {Number} $foo',
+        '@function foo($foo) {',
+      ];
+
+      assert.deepStrictEqual(DocBlock.find(lines, 2), { end: 1, start: 0 });
+    });
+  });
+
+  suite('getTagLine', () => {
+    test('should locate repeated tags in the document', () => {
+      const lines = [
+        'foo();',
+        '',
+        '/**',
+        ' * @param {string} foo',
+        ' *   The foo',
+        ' * @param {number} bar',
+        ' */',
+      ];
+
+      const block = DocBlock.parse(lines, DocBlock.find(lines, 7));
+
+      assert.deepStrictEqual(block.tags.map((tag) => block.getTagLine(lines, tag)), [3, 5]);
+    });
+  });
+
+  suite('parse', () => {
+    test('should parse the summary, description and tags', () => {
+      const block = DocBlock.parse([
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * Longer description',
+        ' * spanning lines',
+        ' *',
+        ' * @param   {Map<string, {a: number}>}  foo  The foo',
+        ' *                                          continued',
+        ' *',
+        ' * @return  {boolean}                        The result',
+        ' */',
+      ]);
+
+      assert.strictEqual(block.summary, 'Summary');
+      assert.strictEqual(block.description, 'Longer description\nspanning lines');
+      assert.strictEqual(block.tags.length, 2);
+
+      assert.deepStrictEqual(block.tags[0], {
+        description: 'The foo\ncontinued',
+        name: 'foo',
+        spaced: false,
+        tag: 'param',
+        type: 'Map<string, {a: number}>',
+      });
+
+      assert.strictEqual(block.tags[1].type, 'boolean');
+      assert.strictEqual(block.tags[1].spaced, true);
+      assert.strictEqual(block.style.braces, true);
+    });
+
+    test('should parse tags without braces', () => {
+      const block = DocBlock.parse([
+        '/**',
+        ' * @param   int     $foo  The foo',
+        ' * @param   $bar',
+        ' * @return  string  The result',
+        ' */',
+      ]);
+
+      assert.strictEqual(block.style.braces, false);
+      assert.strictEqual(block.tags[0].type, 'int');
+      assert.strictEqual(block.tags[0].name, '$foo');
+      assert.strictEqual(block.tags[1].type, undefined);
+      assert.strictEqual(block.tags[1].name, '$bar');
+      assert.strictEqual(block.tags[2].type, 'string');
+      assert.strictEqual(block.tags[2].description, 'The result');
+    });
+
+    test('should parse the direction of Doxygen parameter tags', () => {
+      const block = DocBlock.parse([
+        '/**',
+        ' * @param[in,out]  int  count  The count',
+        ' */',
+      ]);
+
+      assert.deepStrictEqual(block.tags[0], {
+        description: 'The count',
+        direction: '[in,out]',
+        name: 'count',
+        spaced: false,
+        tag: 'param',
+        type: 'int',
+      });
+      assert.deepStrictEqual(block.serializeTag(block.tags[0]), ['@param[in,out] int count The count']);
+    });
+
+    test('should parse drupal style docblocks', () => {
+      const block = DocBlock.parse([
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * @param string $foo',
+        ' *   The foo',
+        ' */',
+      ]);
+
+      assert.strictEqual(block.style.drupal, true);
+      assert.strictEqual(block.tags[0].description, 'The foo');
+    });
+
+    test('should not take indented example code for the drupal style', () => {
+      const lines = [
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * @example',
+        ' *   foo(1);',
+        ' *',
+        ' * @throws {Error} When bad',
+        ' */',
+      ];
+
+      const block = DocBlock.parse(lines);
+
+      assert.strictEqual(block.style.drupal, false);
+      assert.deepStrictEqual(block.serialize(), lines);
+    });
+
+    test('should parse line comment docblocks', () => {
+      const block = DocBlock.parse([
+        '/// Summary',
+        '/// @param {Number} $foo',
+      ]);
+
+      assert.strictEqual(block.style.open, '');
+      assert.strictEqual(block.summary, 'Summary');
+      assert.strictEqual(block.tags[0].name, '$foo');
+    });
+  });
+
+  suite('serialize', () => {
+    test('should serialize a parsed docblock back into code', () => {
+      const lines = [
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * @param {string} foo The foo',
+        ' * @param {number} bar',
+        ' *',
+        ' * @return {boolean} The result',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(DocBlock.parse(lines).serialize(), lines);
+    });
+
+    test('should serialize drupal and line comment docblocks', () => {
+      const drupal = [
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * @param string $foo',
+        ' *   The foo',
+        ' */',
+      ];
+
+      const sass = [
+        '/// Summary',
+        '///',
+        '/// @param {Number} $foo',
+      ];
+
+      assert.deepStrictEqual(DocBlock.parse(drupal).serialize(), drupal);
+      assert.deepStrictEqual(DocBlock.parse(sass).serialize(), sass);
+    });
+  });
+});
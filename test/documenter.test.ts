@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { workspace, WorkspaceEdit } from 'vscode';
+
+import { Documenter } from '../src/documenter';
+import { PHP } from '../src/languages/php';
+
+import config from './defaultConfiguration';
+
+const parser = new PHP();
+
+parser.style = config.style;
+parser.columnCount = config.columnSpacing;
+
+const documenter = new Documenter(parser);
+
+suite('Documenter', () => {
+  suite('document', () => {
+    test('should insert plain text docblocks above undocumented declarations', async () => {
+      const content = [
+        '<?php',
+        '',
+        'class Foo {',
+        '  /**',
+        '   * Documented',
+        '   */',
+        '  public function bar() {}',
+        '',
+        '  public function baz($qux) {}',
+        '}',
+      ].join('\n');
+
+      const document = await workspace.openTextDocument({ content, language: 'php' });
+
+      const edit = new WorkspaceEdit();
+
+      assert.strictEqual(documenter.document(edit, document), 2);
+
+      await workspace.applyEdit(edit);
+
+      const text = document.getText();
+
+      assert.ok(text.startsWith('<?php\n\n/**'));
+      assert.ok(/^ {2}\/\*\*\n(.*\n)* {3}\* +@param +\[type\] +\$qux/m.test(text));
+      assert.ok(!text.includes('${'));
+    });
+  });
+});
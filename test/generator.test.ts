@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+
+import { Generator } from '../src/generator';
+
+import config from './defaultConfiguration';
+
+suite('Generator', () => {
+  suite('createParser', () => {
+    test('should reject unsupported languages', () => {
+      assert.throws(() => Generator.createParser('cobol'), /not supported: cobol/);
+    });
+  });
+
+  suite('getLanguage', () => {
+    test('should determine the language from the file extension', () => {
+      assert.strictEqual(Generator.getLanguage('src/foo.TS'), 'typescript');
+      assert.strictEqual(Generator.getLanguage('include/foo.h'), 'c');
+      assert.strictEqual(Generator.getLanguage('README.md'), undefined);
+    });
+  });
+
+  suite('render', () => {
+    test('should render the docblock of a signature', () => {
+      const code = ['', 'function foo(bar) {}'].join('\n');
+
+      const snippet = Generator.render(code, { config, language: 'javascript', line: 1 });
+
+      const expected = [
+        '/**',
+        ' *  [foo description]',
+        ' *',
+        ' *  @param   {[type]}  bar  [bar description]',
+        ' *',
+        ' *  @return  {[type]}       [return description]',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(snippet.toPlainText(), expected);
+    });
+
+    test('should render an empty docblock without a signature', () => {
+      const snippet = Generator.render('', { config, language: 'php' });
+
+      assert.strictEqual(snippet.toPlainText(), ['/**', ' *  [description]', ' */'].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+
+import { FileHeader } from '../src/header';
+import { PHP } from '../src/languages/php';
+
+suite('FileHeader', () => {
+  suite('getInsertLine', () => {
+    const header = new FileHeader(new PHP());
+
+    test('should insert the header at the top of the file', () => {
+      assert.strictEqual(header.getInsertLine(['', 'class Foo {}']), 0);
+    });
+
+    test('should insert the header after the lines that must remain first', () => {
+      assert.strictEqual(header.getInsertLine(['#!/usr/bin/env php', '<?php', 'class Foo {}']), 2);
+    });
+  });
+
+  suite('render', () => {
+    const header = new FileHeader(new PHP());
+
+    test('should open the PHP script of empty files', () => {
+      assert.ok(header.render(['']).value.startsWith('<?php\n\n/**'));
+    });
+
+    test('should separate the header from the code following it', () => {
+      assert.ok(header.render(['<?php', 'class Foo {}']).value.endsWith(' */\n\n'));
+    });
+
+    test('should not repeat the lines that must remain first', () => {
+      assert.ok(header.render(['<?php', '']).value.startsWith('/**'));
+    });
+  });
+});
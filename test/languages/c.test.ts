@@ -3,9 +3,9 @@
  */
 
 import * as assert from 'assert';
-import { SymbolKind } from 'vscode';
 
 import { C } from '../../src/languages/c';
+import { SymbolKind } from '../../src/symbols';
 import config from '../defaultConfiguration';
 
 const parser = new C();
@@ -65,6 +65,37 @@ suite('C', () => {
       }
     });
 
+    test('should parse varargs and references', () => {
+      const token = parser.getSymbols('int foo(int &count, ...) {');
+
+      assert.deepStrictEqual(token.params, [
+        { byRef: true, name: 'count', type: 'int' },
+        { name: '...', rest: true },
+      ]);
+    });
+
+    test('should describe varargs without a type', () => {
+      const token = parser.getSymbols('int sum(int count, ...) {');
+
+      const result = parser.renderBlock(token).toPlainText().split('\n').filter((line) => line.includes('@param'));
+
+      assert.deepStrictEqual(result, [
+        ' *  @param   int  count  [count description]',
+        ' *  @param        ...    [variadic arguments description]',
+      ]);
+    });
+
+    test('should tag references with their direction', () => {
+      const token = parser.getSymbols('void swap(int &a, char b) {');
+
+      const result = parser.renderBlock(token).toPlainText().split('\n').filter((line) => line.includes('@param'));
+
+      assert.deepStrictEqual(result, [
+        ' *  @param[in,out]   int   a  [a description]',
+        ' *  @param           char  b  [b description]',
+      ]);
+    });
+
     test('should parse function with class return type', () => {
       const token = parser.getSymbols('Bar foo() {');
 
@@ -107,7 +138,9 @@ suite('C', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[struct description]}',
+        ' *  ${1:@brief [struct description]}',
+        ' *  ${2:@details [struct details]}',
+        ' *  ${3:@todo}',
         ' */',
       ].join('\n');
 
@@ -121,12 +154,15 @@ suite('C', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:@brief [foo description]}',
+        ' *  ${2:@details [foo details]}',
         ' *',
-        ' * @param   ${2:char}  arg1  ${3:[arg1 description]}',
-        ' * @param   ${4:char}  arg2  ${5:[arg2 description]}',
+        ' *  @param   ${3:char}  arg1  ${4:[arg1 description]}',
+        ' *  @param   ${5:char}  arg2  ${6:[arg2 description]}',
         ' *',
-        ' * @return  ${6:int}         ${7:[return description]}',
+        ' *  @return  ${7:int}         ${8:[return description]}',
+        ' *  @retval Describe each return value when it needs an explanation.',
+        ' *  ${9:@todo}',
         ' */',
       ].join('\n');
 
@@ -139,9 +175,11 @@ suite('C', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:@brief [foo description]}',
+        ' *  ${2:@details [foo details]}',
         ' *',
-        ' * @var ${2:int}',
+        ' *  < @enum ${3:int}',
+        ' *  ${4:@todo}',
         ' */',
       ].join('\n');
 
@@ -154,9 +192,11 @@ suite('C', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:@brief [foo description]}',
+        ' *  ${2:@details [foo details]}',
         ' *',
-        ' * @var ${2:auto}',
+        ' *  < @enum ${3:auto}',
+        ' *  ${4:@todo}',
         ' */',
       ].join('\n');
 
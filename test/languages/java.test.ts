@@ -3,9 +3,9 @@
  */
 
 import * as assert from 'assert';
-import { SymbolKind } from 'vscode';
 
 import { Java } from '../../src/languages/java';
+import { SymbolKind } from '../../src/symbols';
 import config from '../defaultConfiguration';
 
 const parser = new Java();
@@ -56,6 +56,28 @@ suite('Java', () => {
       }
     });
 
+    test('should parse varargs', () => {
+      const token = parser.getSymbols('public void foo(int... values) {');
+
+      assert.deepStrictEqual(token.params, [{ name: 'values', rest: true, type: 'int' }]);
+    });
+
+    test('should parse varargs of class types', () => {
+      const token = parser.getSymbols('public static void main(String... args) {');
+
+      assert.deepStrictEqual(token.params, [{ name: 'args', rest: true, type: 'String' }]);
+    });
+
+    test('should parse varargs following other arguments', () => {
+      const token = parser.getSymbols('public void foo(int a, Map<String, List<Integer>> b, String... rest) {');
+
+      assert.deepStrictEqual(token.params, [
+        { name: 'a', type: 'int' },
+        { name: 'b', type: 'Map<String, List<Integer>>' },
+        { name: 'rest', rest: true, type: 'String' },
+      ]);
+    });
+
     test('should parse function with multiple modifiers', () => {
       const token = parser.getSymbols('public static void foo() {');
 
@@ -89,7 +111,7 @@ suite('Java', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[Foo description]}',
+        ' *  ${1:[Foo description]}',
         ' */',
       ].join('\n');
 
@@ -103,12 +125,10 @@ suite('Java', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param   ${2:int}   arg1  ${3:[arg1 description]}',
-        ' * @param   ${4:int}   arg2  ${5:[arg2 description]}',
-        ' *',
-        ' * @return  ${6:void}        ${7:[return description]}',
+        ' *  @param   arg1  ${2:[arg1 description]}',
+        ' *  @param   arg2  ${3:[arg2 description]}',
         ' */',
       ].join('\n');
 
@@ -121,9 +141,7 @@ suite('Java', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
-        ' *',
-        ' * @var ${2:int}',
+        ' *  ${1:[foo description]}',
         ' */',
       ].join('\n');
 
@@ -3,11 +3,10 @@
  */
 
 import * as assert from 'assert';
-import { commands, Selection, SnippetString, SymbolKind, TextDocument, TextEditor } from 'vscode';
 
 import { PHP } from '../../src/languages/php';
+import { SymbolKind } from '../../src/symbols';
 import config from '../defaultConfiguration';
-import TestEditor from '../TestEditor';
 
 const parser = new PHP();
 
@@ -63,10 +62,31 @@ suite('PHP', () => {
 
       assert.strictEqual(token.params[0].name, `$arg`);
       assert.strictEqual(token.params[0].type, 'int');
+      assert.strictEqual(token.params[0].byRef, true);
 
       assert.strictEqual(token.return.type, 'boolean');
     });
 
+    test('should parse variadic arguments', () => {
+      const token = parser.getSymbols('function foo(&$out, string ...$items) {');
+
+      assert.deepStrictEqual(token.params, [
+        { byRef: true, name: '$out' },
+        { name: '$items', rest: true, type: 'string' },
+      ]);
+    });
+
+    test('should note references and variadics in parameter names', () => {
+      const token = parser.getSymbols('function foo(array &$out, string ...$items) {');
+
+      const result = parser.renderBlock(token).toPlainText().split('\n').filter((line) => line.includes('@param'));
+
+      assert.deepStrictEqual(result, [
+        ' *  @param   array   &$out      [$out description]',
+        ' *  @param   string  ...$items  [$items description]',
+      ]);
+    });
+
     test('should parse function arguments with or without types', () => {
       const token = parser.getSymbols('function foo(int $fizz, $buzz): boolean {');
 
@@ -89,10 +109,26 @@ suite('PHP', () => {
       assert.strictEqual(token.params.length, 1);
 
       assert.strictEqual(token.params[0].name, `$bar`);
+      assert.strictEqual(token.params[0].val, '4');
 
       assert.strictEqual(token.return.type, 'boolean');
     });
 
+    test('should infer argument types from default values', () => {
+      const token = parser.getSymbols("function foo($limit = 10, $opts = [], $name = 'x', $rate = 1.5, $all = array(1, 2)) {");
+
+      assert.deepStrictEqual(token.params.map((param) => param.name), ['$limit', '$opts', '$name', '$rate', '$all']);
+      assert.deepStrictEqual(token.params.map((param) => param.type), ['int', 'array', 'string', 'float', 'array']);
+      assert.strictEqual(token.params[4].val, 'array(1, 2)');
+    });
+
+    test('should make argument types defaulting to null nullable', () => {
+      const token = parser.getSymbols('function foo(int $limit = null, ?Bar $bar = null) {');
+
+      assert.strictEqual(token.params[0].type, '?int');
+      assert.strictEqual(token.params[1].type, '?Bar');
+    });
+
     test('should parse function arguments with null as a default value', () => {
       const token = parser.getSymbols('function foo($bar = NULL): boolean {');
 
@@ -118,6 +154,13 @@ suite('PHP', () => {
       assert.strictEqual(token.return.type, 'boolean');
     });
 
+    test('should keep nullable parameter and return types', () => {
+      const token = parser.getSymbols('function foo(?string $a, int $b): ?array {');
+
+      assert.deepStrictEqual(token.params.map((param) => param.type), ['?string', 'int']);
+      assert.strictEqual(token.return.type, '?array');
+    });
+
     test('should parse class name as return type', () => {
       const token = parser.getSymbols('function foo(): TestClass {');
 
@@ -203,7 +246,7 @@ suite('PHP', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[Foo description]}',
+        ' *  ${1:[Foo description]}',
         ' */',
       ].join('\n');
 
@@ -216,11 +259,11 @@ suite('PHP', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param   ${2:[type]}  \\$bar  ${3:[\\$bar description]}',
+        ' *  @param   ${2:[type]}  \\$bar  ${3:[\\$bar description]}',
         ' *',
-        ' * @return  ${4:[type]}        ${5:[return description]}',
+        ' *  @return  ${4:[type]}        ${5:[return description]}',
         ' */',
       ].join('\n');
 
@@ -233,67 +276,13 @@ suite('PHP', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[\\$foo description]}',
+        ' *  ${1:[\\$foo description]}',
         ' *',
-        ' * @var ${2:[type]}',
+        ' *  @var ${2:[type]}',
         ' */',
       ].join('\n');
 
       assert.strictEqual(result, expected);
     });
   });
-
-  suite('Keybinding: /** + Enter', () => {
-    let editor: TextEditor;
-    let document: TextDocument;
-
-    suiteSetup((done) => {
-      TestEditor.loadEditor('php', async (textEditor, textDocument) => {
-        editor = textEditor;
-        document = textDocument;
-
-        done();
-      });
-    });
-
-    test('should parse parameter-less function', async () => {
-      await editor.insertSnippet(new SnippetString('<?php\n\nfunction foo() {}'));
-
-      const selection = new Selection(1, 0, 1, 0);
-
-      editor.selection = selection;
-
-      assert.ok(document.validateRange(selection));
-
-      await editor.insertSnippet(new SnippetString('/**'));
-
-      await commands.executeCommand('editor.action.triggerSuggest');
-
-      await TestEditor.delay(4000);
-
-      await commands.executeCommand('acceptSelectedSuggestion');
-
-      const actual = document.getText();
-
-      const expected = [
-        '<?php',
-        '/**',
-        ' * [foo description]',
-        ' *',
-        ' * @return  [type]  [return description]',
-        ' */',
-        'function foo() {}',
-      ].join('\n');
-
-      assert.strictEqual(actual, expected);
-    });
-
-    teardown((done) => {
-      editor.edit((builder) => {
-        TestEditor.clearDocument(builder, document);
-
-        done();
-      });
-    });
-  });
 });
@@ -3,9 +3,9 @@
  */
 
 import * as assert from 'assert';
-import { SymbolKind } from 'vscode';
 
 import { SCSS } from '../../src/languages/scss';
+import { SymbolKind } from '../../src/symbols';
 import config from '../defaultConfiguration';
 
 const parser = new SCSS();
@@ -45,11 +45,13 @@ suite('SCSS', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
+        ' *  ${2:@group [file name]}',
         ' *',
-        ' * @param   {${2:[type]}\\}  \\$bar  ${3:[\\$bar description]}',
+        ' *  @param   {${3:[type]}\\}  \\$bar  ${4:[\\$bar description]}',
         ' *',
-        ' * @return  {${4:[type]}\\}        ${5:[return description]}',
+        ' *  @return  {${5:[type]}\\}        ${6:[return description]}',
+        ' *  ${7:@todo}',
         ' */',
       ].join('\n');
 
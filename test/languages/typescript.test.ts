@@ -3,9 +3,9 @@
  */
 
 import * as assert from 'assert';
-import { SymbolKind } from 'vscode';
 
 import { TypeScript } from '../../src/languages/typescript';
+import { SymbolKind } from '../../src/symbols';
 import config from '../defaultConfiguration';
 
 // Use the JavaScript parser for the sake of setup
@@ -95,10 +95,61 @@ suite('TypeScript', () => {
       assert.strictEqual(token.params[0].type, 'Bar');
     });
 
+    test('should infer argument types from default values', () => {
+      const token = parser.getSymbols("function foo(limit = 10, name = 'x', flags = [], options = {}, on = false) {");
+
+      assert.deepStrictEqual(token.params.map((param) => param.name), ['limit', 'name', 'flags', 'options', 'on']);
+      assert.deepStrictEqual(token.params.map((param) => param.type), ['number', 'string', 'Array', 'Object', 'boolean']);
+      assert.deepStrictEqual(token.params.map((param) => param.val), ['10', "'x'", '[]', '{}', 'false']);
+    });
+
+    test('should keep declared argument types over default values', () => {
+      const token = parser.getSymbols('function foo(bar: number[] = [], callback = create(1, 2)) {');
+
+      assert.deepStrictEqual(token.params, [
+        { name: 'bar', type: 'number[]', val: '[]' },
+        { name: 'callback', val: 'create(1, 2)' },
+      ]);
+    });
+
     test('should parse arguments using object destructuring', () => {
       const token = parser.getSymbols('function foo({bar, fizz, buzz}) {');
 
-      assert.strictEqual(token.params.length, 3);
+      assert.deepStrictEqual(token.params.map((param) => param.name), [
+        'options',
+        'options.bar',
+        'options.fizz',
+        'options.buzz',
+      ]);
+      assert.strictEqual(token.params[0].type, 'Object');
+    });
+
+    test('should parse destructured property types and default values', () => {
+      const token = parser.getSymbols(
+        'function render({ title, items = [], size: { width } }: { title: string; size: Size }, [first, second]) {',
+      );
+
+      assert.deepStrictEqual(token.params, [
+        { name: 'options', type: 'Object' },
+        { name: 'options.title', type: 'string' },
+        { inferred: true, name: 'options.items', type: 'Array', val: '[]' },
+        { name: 'options.size', type: 'Size' },
+        { name: 'options.size.width' },
+        { inferred: true, name: 'options2', type: 'Array' },
+      ]);
+    });
+
+    test('should name destructured parameters after the destructuredName setting', () => {
+      parser.destructuredName = 'props';
+
+      const token = parser.getSymbols('function foo({ bar }: Props) {');
+
+      parser.destructuredName = 'options';
+
+      assert.deepStrictEqual(token.params, [
+        { name: 'props', type: 'Props' },
+        { name: 'props.bar' },
+      ]);
     });
 
     test('should parse function with return type', () => {
@@ -223,6 +274,159 @@ suite('TypeScript', () => {
       assert.strictEqual(token.params[1].type, 'number');
       assert.strictEqual(token.return.type, 'number');
     });
+
+    test('should parse full type expressions', () => {
+      const token = parser.getSymbols(
+        'function foo<T>(bar: Map<string, T[]>, fizz: string | null, buzz: (a: number) => void): Promise<T> {',
+      );
+
+      assert.deepStrictEqual(token.params.map((param) => param.type), [
+        'Map<string, T[]>',
+        'string | null',
+        '(a: number) => void',
+      ]);
+      assert.strictEqual(token.return.type, 'Promise<T>');
+    });
+
+    test('should parse parameters spanning lines', () => {
+      const token = parser.getSymbols('function foo(\nbar: { fizz: number },\nbuzz: string,\n) {');
+
+      assert.deepStrictEqual(token.params.map((param) => param.name), ['bar', 'buzz']);
+      assert.strictEqual(token.params[0].type, '{ fizz: number }');
+    });
+
+    test('should rewrite types into their JSDoc forms', () => {
+      parser.jsdocTypes = true;
+
+      const token = parser.getSymbols(
+        'function foo(a: string | null, b: (number | string)[], c: Map<string, T[]>, d: (e: number, ...f: string[]) => void, g: { h: number }, i: [string, number]): Promise<T> | null {',
+      );
+
+      parser.jsdocTypes = false;
+
+      assert.deepStrictEqual(token.params.map((param) => param.type), [
+        '?string',
+        'Array<(number|string)>',
+        'Map<string, Array<T>>',
+        'function(number, ...Array<string>): void',
+        '{h: number}',
+        'Array',
+      ]);
+      assert.strictEqual(token.return.type, '?Promise<T>');
+    });
+
+    test('should parse optional and rest parameters', () => {
+      const token = parser.getSymbols('function foo(bar?: number, ...fizz: Array<string>) {');
+
+      assert.deepStrictEqual(token.params, [
+        { name: 'bar', optional: true, type: 'number' },
+        { name: 'fizz', rest: true, type: 'string' },
+      ]);
+    });
+
+    test('should skip the this parameter', () => {
+      const token = parser.getSymbols('function foo(this: Window, bar: number) {');
+
+      assert.strictEqual(token.params.length, 1);
+      assert.strictEqual(token.params[0].name, 'bar');
+    });
+
+    test('should parse modifiers', () => {
+      assert.deepStrictEqual(parser.getSymbols('export async function foo() {').modifiers, ['export', 'async']);
+      assert.deepStrictEqual(parser.getSymbols('private static readonly foo = 5;').modifiers, [
+        'private',
+        'static',
+        'readonly',
+      ]);
+      assert.deepStrictEqual(parser.getSymbols('export const foo = async (bar) => {').modifiers, ['export', 'async']);
+    });
+
+    test('should parse accessors', () => {
+      const token = parser.getSymbols('public get foo(): string {');
+
+      assert.strictEqual(token.name, 'foo');
+      assert.strictEqual(token.type, SymbolKind.Function);
+      assert.deepStrictEqual(token.modifiers, ['public', 'get']);
+      assert.strictEqual(token.return.type, 'string');
+    });
+
+    test('should parse constructor', () => {
+      const token = parser.getSymbols('constructor(private bar: number) {');
+
+      assert.strictEqual(token.name, 'constructor');
+      assert.strictEqual(token.type, SymbolKind.Function);
+      assert.strictEqual(token.params[0].name, 'bar');
+      assert.strictEqual(token.return.type, 'void');
+    });
+
+    test('should parse setter without return value', () => {
+      const token = parser.getSymbols('set foo(value: string) {');
+
+      assert.strictEqual(token.name, 'foo');
+      assert.deepStrictEqual(token.modifiers, ['set']);
+      assert.strictEqual(token.params[0].name, 'value');
+      assert.strictEqual(token.return.type, 'void');
+    });
+
+    test('should parse object literal methods', () => {
+      for (const code of ['foo(bar) {', 'foo: function (bar) {', "'foo': async (bar) => {"]) {
+        const token = parser.getSymbols(code);
+
+        assert.strictEqual(token.name, 'foo', code);
+        assert.strictEqual(token.type, SymbolKind.Function, code);
+        assert.strictEqual(token.params[0].name, 'bar', code);
+      }
+    });
+
+    test('should parse object literal property', () => {
+      const token = parser.getSymbols("foo: 'bar',");
+
+      assert.strictEqual(token.name, 'foo');
+      assert.strictEqual(token.type, SymbolKind.Variable);
+    });
+
+    test('should parse method with computed name', () => {
+      const token = parser.getSymbols('*[Symbol.iterator](): Iterator<number> {');
+
+      assert.strictEqual(token.name, '[Symbol.iterator]');
+      assert.strictEqual(token.type, SymbolKind.Function);
+      assert.strictEqual(token.return.type, 'Iterator<number>');
+    });
+
+    test('should parse anonymous default exports', () => {
+      let token = parser.getSymbols('export default function (bar) {');
+
+      assert.strictEqual(token.name, 'default');
+      assert.strictEqual(token.type, SymbolKind.Function);
+      assert.strictEqual(token.params[0].name, 'bar');
+
+      token = parser.getSymbols('export default async (bar: number): Promise<void> => {');
+
+      assert.strictEqual(token.name, 'default');
+      assert.strictEqual(token.type, SymbolKind.Function);
+      assert.deepStrictEqual(token.modifiers, ['export', 'default', 'async']);
+      assert.strictEqual(token.return.type, 'Promise<void>');
+    });
+
+    test('should not parse control statements as methods', () => {
+      for (const code of ['if (foo) {', 'while (foo) {', 'switch (foo) {', 'for (const foo of bar) {']) {
+        assert.strictEqual(parser.getSymbols(code).name, '', code);
+      }
+    });
+
+    test('should parse variable type', () => {
+      const token = parser.getSymbols('public foo: Array<string | number>;');
+
+      assert.strictEqual(token.type, SymbolKind.Variable);
+      assert.strictEqual(token.varType, 'Array<string | number>');
+    });
+
+    test('should parse namespace', () => {
+      const token = parser.getSymbols('namespace Foo {');
+
+      assert.strictEqual(token.name, 'Foo');
+      assert.strictEqual(token.type, SymbolKind.Namespace);
+    });
   });
 
   suite('renderBlock', () => {
@@ -232,7 +436,7 @@ suite('TypeScript', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[Foo description]}',
+        ' *  ${1:[Foo description]}',
         ' */',
       ].join('\n');
 
@@ -245,11 +449,11 @@ suite('TypeScript', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
+        ' *  @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
         ' *',
-        ' * @return  {${4:[type]}\\}       ${5:[return description]}',
+        ' *  @return  {${4:[type]}\\}       ${5:[return description]}',
         ' */',
       ].join('\n');
 
@@ -262,9 +466,9 @@ suite('TypeScript', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @var {${2:[type]}\\}',
+        ' *  @type {${2:string}\\}',
         ' */',
       ].join('\n');
 
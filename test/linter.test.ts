@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+
+import { TypeScript } from '../src/languages/typescript';
+import { Linter } from '../src/linter';
+
+const linter = new Linter(new TypeScript());
+
+const lines = [
+  '/**',
+  ' * Foo',
+  ' *',
+  ' * @param   {string}  baz  The baz',
+  ' */',
+  'function foo(bar: string): void {',
+  '}',
+  '',
+  'class Bar {',
+  '}',
+];
+
+suite('Linter', () => {
+  suite('lint', () => {
+    test('should report undocumented declarations and stale tags by line', () => {
+      const violations = linter.lint(lines, { stale: true, undocumented: true });
+
+      assert.deepStrictEqual(violations.map(({ code, line, start, end }) => [code, line, start, end]), [
+        ['unknown-param', 3, 1, 34],
+        ['missing-param', 5, 9, 12],
+        ['undocumented', 8, 6, 9],
+      ]);
+
+      assert.strictEqual(violations[2].message, 'Missing docblock for class Bar');
+      assert.strictEqual(violations[2].symbol, 'Bar');
+    });
+
+    test('should only report the enabled problems', () => {
+      assert.deepStrictEqual(linter.lint(lines, { undocumented: true }).map((item) => item.code), ['undocumented']);
+      assert.deepStrictEqual(linter.lint(lines, {}), []);
+    });
+  });
+});
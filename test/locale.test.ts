@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+
+import { Locale } from '../src/locale';
+
+suite('Locale', () => {
+  suite('resolve', () => {
+    test('should resolve regional locales to their language', () => {
+      assert.strictEqual(Locale.resolve('ja-JP'), 'ja');
+      assert.strictEqual(Locale.resolve('en-us'), 'en');
+    });
+
+    test('should fall back to the default locale', () => {
+      assert.strictEqual(Locale.resolve('de'), Locale.defaultLocale);
+      assert.strictEqual(Locale.resolve(undefined), Locale.defaultLocale);
+    });
+  });
+
+  suite('get', () => {
+    test('should replace placeholder variables', () => {
+      const locale = new Locale('en');
+
+      assert.strictEqual(locale.get('paramDescription', { name: 'foo' }), '[foo description]');
+      assert.strictEqual(new Locale('ja').get('summary', { name: 'foo' }), '[foo 概要]');
+    });
+
+    test('should leave unknown variables in place', () => {
+      assert.strictEqual(new Locale('en').get('summary'), '[{name} description]');
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import * as assert from 'assert';
 
+import { PHP } from '../src/languages/php';
 import { TypeScript } from '../src/languages/typescript';
+import { Locale } from '../src/locale';
 
 import config from './defaultConfiguration';
 
@@ -19,6 +21,97 @@ suite('Parser', () => {
     });
   });
 
+  suite('isSignatureComplete', () => {
+    test('should be complete when parentheses are balanced', () => {
+      assert.strictEqual(parser.isSignatureComplete('function foo(bar) {'), true);
+      assert.strictEqual(parser.isSignatureComplete('function foo(\nbar,\nbaz\n): boolean {'), true);
+    });
+
+    test('should be incomplete when parentheses are unbalanced', () => {
+      assert.strictEqual(parser.isSignatureComplete('function foo('), false);
+      assert.strictEqual(parser.isSignatureComplete('function foo(\nbar: string,'), false);
+    });
+
+    test('should be incomplete until the signature is terminated', () => {
+      assert.strictEqual(parser.isSignatureComplete('function foo(bar)'), false);
+      assert.strictEqual(parser.isSignatureComplete('function foo(bar)\n{'), true);
+      assert.strictEqual(parser.isSignatureComplete('const foo = (bar) => bar;'), true);
+    });
+
+    test('should be complete when there is no parameter list', () => {
+      assert.strictEqual(parser.isSignatureComplete('class Foo'), true);
+    });
+  });
+
+  suite('dialect', () => {
+    test('should use the dialect chosen for the language', () => {
+      const tsdoc = new TypeScript();
+
+      tsdoc.columnCount = config.columnSpacing;
+      tsdoc.languageId = 'typescript';
+      tsdoc.dialects = { typescript: 'tsdoc' };
+
+      const result = tsdoc.renderBlock(tsdoc.getSymbols('function foo(bar: string): number {')).value;
+
+      const expected = [
+        '/**',
+        ' *  ${1:[foo description]}',
+        ' *',
+        ' *  @param   bar  ${2:[bar description]}',
+        ' *',
+        ' *  @returns      ${3:[return description]}',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should fall back to the default dialect of the parser', () => {
+      assert.strictEqual(parser.dialect.name, 'jsdoc');
+    });
+  });
+
+  suite('extraTags', () => {
+    test('should render extra tags with their values as placeholders', () => {
+      const php = new PHP();
+
+      php.columnCount = config.columnSpacing;
+      php.languageId = 'php';
+      php.extraTags = { 'php.class': ['@package ${name}', '@internal'], 'class': ['@ignored'] };
+
+      const result = php.renderBlock(php.getSymbols('class Foo {')).value;
+
+      const expected = [
+        '/**',
+        ' *  ${1:[Foo description]}',
+        ' *',
+        ' *  @package ${2:Foo}',
+        ' *  @internal',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+  });
+
+  suite('renderFileHeader', () => {
+    test('should derive the module from the file name', () => {
+      const header = new TypeScript();
+
+      header.fileName = '/project/src/_fizz-buzz.ts';
+
+      const expected = [
+        '/**',
+        ' *  ${1:[title]}',
+        ' *',
+        ' *  @module ${2:fizz-buzz}',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(header.renderFileHeader().value, expected);
+    });
+  });
+
   suite('renderBlock', () => {
     test('should return empty docblock when using un-parseable code', () => {
       const token = parser.getSymbols('hello');
@@ -26,7 +119,7 @@ suite('Parser', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[description]}',
+        ' *  ${1:[description]}',
         ' */',
       ].join('\n');
 
@@ -48,9 +141,9 @@ suite('Parser', () => {
 
       let expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
+        ' *  @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
         ' */',
       ].join('\n');
 
@@ -63,11 +156,11 @@ suite('Parser', () => {
 
       expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
+        ' *  @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
         ' *',
-        ' * @return  {${4:boolean}\\}      ${5:[return description]}',
+        ' *  @return  {${4:boolean}\\}       ${5:[return description]}',
         ' */',
       ].join('\n');
 
@@ -84,11 +177,11 @@ suite('Parser', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
+        ' *  @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
         ' *',
-        ' * @return  {${4:[type]}\\}       ${5:[return description]}',
+        ' *  @return  {${4:[type]}\\}       ${5:[return description]}',
         ' */',
       ].join('\n');
 
@@ -105,13 +198,13 @@ suite('Parser', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
         ' *',
-        ' * @param {${2:[type]}\\} bar',
-        ' *   ${3:[bar description]}',
+        ' *  @param {${2:[type]}\\} bar',
+        ' *    ${3:[bar description]}',
         ' *',
-        ' * @return {${4:[type]}\\}',
-        ' *   ${5:[return description]}',
+        ' *  @return {${4:[type]}\\}',
+        ' *    ${5:[return description]}',
         ' */',
       ].join('\n');
 
@@ -129,9 +222,9 @@ suite('Parser', () => {
 
       let expected = [
         '/**',
-        ' * ${1:[foo description]}',
-        ' * @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
-        ' * @return  {${4:[type]}\\}       ${5:[return description]}',
+        ' *  ${1:[foo description]}',
+        ' *  @param   {${2:[type]}\\}  bar  ${3:[bar description]}',
+        ' *  @return  {${4:[type]}\\}       ${5:[return description]}',
         ' */',
       ].join('\n');
 
@@ -142,8 +235,8 @@ suite('Parser', () => {
 
       expected = [
         '/**',
-        ' * ${1:[foo description]}',
-        ' * @var {${2:[type]}\\}',
+        ' *  ${1:[foo description]}',
+        ' *  @type {${2:string}\\}',
         ' */',
       ].join('\n');
 
@@ -162,11 +255,105 @@ suite('Parser', () => {
 
       const expected = [
         '/**',
-        ' * ${1:[foo description]}',
+        ' *  ${1:[foo description]}',
+        ' *',
+        ' *  @param {${2:[type]}\\} bar ${3:[bar description]}',
+        ' *',
+        ' *  @return {${4:[type]}\\} ${5:[return description]}',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should render default values in JSDoc parameter tags when enabled', () => {
+      const jsdoc = new TypeScript();
+
+      jsdoc.columnCount = config.columnSpacing;
+      jsdoc.defaultValues = true;
+
+      const token = jsdoc.getSymbols("function foo(limit = 10, name = 'x', flags) {");
+      const result = jsdoc.renderBlock(token).toPlainText();
+
+      const expected = [
+        '/**',
+        ' *  [foo description]',
+        ' *',
+        ' *  @param   {number}  [limit=10]  [limit description]',
+        " *  @param   {string}  [name='x']  [name description]",
+        ' *  @param   {[type]}  flags       [flags description]',
+        ' *',
+        ' *  @return  {[type]}              [return description]',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should render destructured parameters along with their properties', () => {
+      const jsdoc = new TypeScript();
+
+      jsdoc.columnCount = config.columnSpacing;
+      jsdoc.defaultValues = true;
+
+      const token = jsdoc.getSymbols('function render({ title, items = [] }: { title: string }) {');
+      const result = jsdoc.renderBlock(token).toPlainText();
+
+      const expected = [
+        '/**',
+        ' *  [render description]',
+        ' *',
+        ' *  @param   {Object}  options             [options description]',
+        ' *  @param   {string}  options.title       [options.title description]',
+        ' *  @param   {Array}   [options.items=[]]  [options.items description]',
+        ' *',
+        ' *  @return  {[type]}                      [return description]',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should note optional and rest parameters in JSDoc parameter tags', () => {
+      const jsdoc = new TypeScript();
+
+      jsdoc.columnCount = config.columnSpacing;
+
+      const token = jsdoc.getSymbols('function foo(bar?: number, limit = 10, ...rest: string[]): void {');
+      const result = jsdoc.renderBlock(token).toPlainText();
+
+      const expected = [
+        '/**',
+        ' *  [foo description]',
+        ' *',
+        ' *  @param   {number}     [bar]    [bar description]',
+        ' *  @param   {number}     [limit]  [limit description]',
+        ' *  @param   {...string}  rest     [rest description]',
+        ' *',
+        ' *  @return  {void}                [return description]',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should align columns by the display width of full-width characters', () => {
+      const ja = new TypeScript();
+
+      ja.columnCount = config.columnSpacing;
+      ja.locale = new Locale('ja');
+
+      const token = ja.getSymbols('function foo(bar: string, baz) {');
+      const result = ja.renderBlock(token).toPlainText();
+
+      const expected = [
+        '/**',
+        ' *  [foo 概要]',
         ' *',
-        ' * @param {${2:[type]}\\} bar ${3:[bar description]}',
+        ' *  @param   {string}  bar  [bar の説明]',
+        ' *  @param   {[型]}    baz  [baz の説明]',
         ' *',
-        ' * @return {${4:[type]}\\} ${5:[return description]}',
+        ' *  @return  {[型]}         [戻り値の説明]',
         ' */',
       ].join('\n');
 
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+
+import { Reflow } from '../src/reflow';
+
+const reflow = new Reflow(40);
+
+suite('Reflow', () => {
+  suite('reflow', () => {
+    test('should wrap the summary and description', () => {
+      const block = [
+        '  /**',
+        '   * A summary long enough to be wrapped onto a second line.',
+        '   *',
+        '   * A description',
+        '   * joined again.',
+        '   */',
+      ];
+
+      assert.deepStrictEqual(reflow.reflow(block), [
+        '  /**',
+        '   * A summary long enough to be wrapped',
+        '   * onto a second line.',
+        '   *',
+        '   * A description joined again.',
+        '   */',
+      ]);
+    });
+
+    test('should align tag descriptions under their column', () => {
+      const block = [
+        '/**',
+        ' * @param   {string}  foo  The foo, described at length',
+        ' *                         here.',
+        ' * @return  {number}       The result',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(reflow.reflow(block), [
+        '/**',
+        ' * @param   {string}  foo  The foo,',
+        ' *                         described at',
+        ' *                         length here.',
+        ' * @return  {number}       The result',
+        ' */',
+      ]);
+    });
+
+    test('should leave code examples and lists untouched', () => {
+      const block = [
+        '/**',
+        ' * - A list item that is longer than the column',
+        ' *',
+        ' * ```',
+        ' * const foo = bar(baz); // A long comment of code',
+        ' * ```',
+        ' *',
+        ' * @example',
+        ' * const foo = bar(baz); // Another long comment',
+        ' */',
+      ];
+
+      assert.deepStrictEqual(reflow.reflow(block), block);
+    });
+
+    test('should keep the separator of line comments', () => {
+      const block = [
+        '/// A summary long enough to be wrapped onto a',
+        '/// second line.',
+      ];
+
+      assert.deepStrictEqual(reflow.reflow(block), [
+        '/// A summary long enough to be wrapped',
+        '/// onto a second line.',
+      ]);
+    });
+
+    test('should wrap by the display width of full-width characters', () => {
+      const block = ['/**', ' * 日本語の説明 日本語の説明 日本語の説明', ' */'];
+
+      assert.deepStrictEqual(reflow.reflow(block), [
+        '/**',
+        ' * 日本語の説明 日本語の説明',
+        ' * 日本語の説明',
+        ' */',
+      ]);
+    });
+  });
+
+  suite('findBlocks', () => {
+    test('should find every docblock', () => {
+      const lines = [
+        '/**',
+        ' * Foo',
+        ' */',
+        'function foo() {}',
+        '',
+        '/// Bar',
+        'function bar() {}',
+      ];
+
+      assert.deepStrictEqual(Reflow.findBlocks(lines), [{ end: 2, start: 0 }, { end: 5, start: 5 }]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+
+import { Report } from '../src/report';
+
+const report = new Report([
+  { file: 'bar.ts', violations: [] },
+  {
+    file: 'foo.ts',
+    violations: [
+      { code: 'undocumented', end: 12, line: 2, message: 'Missing docblock for function foo', start: 9, symbol: 'foo' },
+    ],
+  },
+]);
+
+suite('Report', () => {
+  suite('toHuman', () => {
+    test('should list problems starting at line and column 1', () => {
+      const expected = [
+        'foo.ts:3:10  Missing docblock for function foo  (undocumented)',
+        '',
+        '1 problem in 1 file',
+        '',
+      ].join('\n');
+
+      assert.strictEqual(report.toHuman(), expected);
+    });
+
+    test('should report the absence of problems', () => {
+      assert.strictEqual(new Report([]).toHuman(), 'No problems found\n');
+    });
+  });
+
+  suite('toJson', () => {
+    test('should list problems starting at line and column 1', () => {
+      assert.deepStrictEqual(JSON.parse(report.toJson()), [{
+        code: 'undocumented',
+        column: 10,
+        endColumn: 13,
+        file: 'foo.ts',
+        line: 3,
+        message: 'Missing docblock for function foo',
+        symbol: 'foo',
+      }]);
+    });
+  });
+
+  suite('toSarif', () => {
+    test('should create a result per problem', () => {
+      const [run] = JSON.parse(report.toSarif()).runs;
+
+      assert.strictEqual(run.tool.driver.name, 'vs-docblockr');
+      assert.ok(run.tool.driver.rules.some((rule) => rule.id === 'undocumented'));
+      assert.deepStrictEqual(run.results, [{
+        level: 'error',
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: 'foo.ts' },
+            region: { endColumn: 13, startColumn: 10, startLine: 3 },
+          },
+        }],
+        message: { text: 'Missing docblock for function foo' },
+        ruleId: 'undocumented',
+      }]);
+    });
+  });
+});
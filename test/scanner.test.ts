@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+
+import { PHP } from '../src/languages/php';
+import { TypeScript } from '../src/languages/typescript';
+import { Scanner } from '../src/scanner';
+
+const scanner = new Scanner(new TypeScript());
+
+suite('Scanner', () => {
+  suite('scan', () => {
+    test('should find classes, methods and functions', () => {
+      const lines = [
+        '/**',
+        ' * Documented',
+        ' */',
+        'export class Foo {',
+        '  private bar(baz) {',
+        '    if (baz) {',
+        '      qux(baz);',
+        '    }',
+        '  }',
+        '}',
+        '',
+        'function fizz() {',
+        '  function nested() {}',
+        '}',
+      ];
+
+      const result = scanner.scan(lines).map(({ documented, line, member, symbols }) => {
+        return { documented, line, member, name: symbols.name };
+      });
+
+      assert.deepStrictEqual(result, [
+        { documented: true, line: 3, member: false, name: 'Foo' },
+        { documented: false, line: 4, member: true, name: 'bar' },
+        { documented: false, line: 11, member: false, name: 'fizz' },
+      ]);
+    });
+
+    test('should ignore braces in strings, comments and regular expressions', () => {
+      const lines = [
+        'class Foo {',
+        '  bar() {',
+        '    const a = "}"; // }',
+        '    return /[}]/.test(a);',
+        '  }',
+        '',
+        '  baz() {}',
+        '}',
+      ];
+
+      const names = scanner.scan(lines).filter((item) => item.member).map((item) => item.symbols.name);
+
+      assert.deepStrictEqual(names, ['bar', 'baz']);
+    });
+
+    test('should skip the lines of signatures spanning lines', () => {
+      const lines = [
+        'class Foo {',
+        '  bar(',
+        '    baz = function (a) {',
+        '      return a;',
+        '    },',
+        '    { fizz }: Options,',
+        '  ): void {',
+        '  }',
+        '',
+        '  buzz() {}',
+        '}',
+      ];
+
+      const names = scanner.scan(lines).map((item) => item.symbols.name);
+
+      assert.deepStrictEqual(names, ['Foo', 'bar', 'buzz']);
+    });
+
+    test('should not mistake function type parameters for object literal methods', () => {
+      const lines = [
+        'class Foo {',
+        '  protected static bar(',
+        '    baz: string,',
+        '    cb: (x: number) => void,',
+        '    format: (lines: string[]) => string[],',
+        '  ): void {',
+        '  }',
+        '}',
+      ];
+
+      const names = scanner.scan(lines).map((item) => item.symbols.name);
+
+      assert.deepStrictEqual(names, ['Foo', 'bar']);
+    });
+
+    test('should skip annotations between the docblock and the declaration', () => {
+      const lines = [
+        'class Foo {',
+        '  /**',
+        '   * Documented',
+        '   */',
+        '  #[Pure]',
+        '  public function bar() {',
+        '  }',
+        '}',
+      ];
+
+      const [, method] = new Scanner(new PHP()).scan(lines);
+
+      assert.strictEqual(method.documented, true);
+    });
+  });
+
+  suite('isPublic', () => {
+    test('should require exported declarations and public members', () => {
+      const lines = [
+        'export class Foo {',
+        '  protected bar() {}',
+        '}',
+        'function baz() {}',
+      ];
+
+      const result = scanner.scan(lines).map((declaration) => scanner.isPublic(declaration));
+
+      assert.deepStrictEqual(result, [true, false, false]);
+    });
+  });
+});
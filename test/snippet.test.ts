@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+
+import { Snippet } from '../src/snippet';
+
+suite('Snippet', () => {
+  suite('appendPlaceholder', () => {
+    test('should number placeholders and escape their values', () => {
+      const snippet = new Snippet('/**').appendPlaceholder('[summary]').appendPlaceholder('{$foo}');
+
+      assert.strictEqual(snippet.value, '/**${1:[summary]}${2:{\\$foo\\}}');
+    });
+  });
+
+  suite('toPlainText', () => {
+    test('should keep the default values of placeholders', () => {
+      const snippet = new Snippet([
+        '/**',
+        ' * ${1:@brief ${2:[summary]}}',
+        ' *',
+        ' * @param {${3:[type]}\\} \\$foo ${4|first,second|}$5',
+        ' */',
+      ].join('\n'));
+
+      const expected = [
+        '/**',
+        ' * @brief [summary]',
+        ' *',
+        ' * @param {[type]} $foo first',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(snippet.toPlainText(), expected);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { commands, Selection, SnippetString, TextDocument, TextEditor } from 'vscode';
+import { commands, ConfigurationTarget, Selection, SnippetString, TextDocument, TextEditor, workspace } from 'vscode';
 
 import { Snippets } from '../src/snippets';
 
@@ -14,6 +14,27 @@ suite('Snippets', () => {
     });
   });
 
+  suite('getConfiguration', () => {
+    let document: TextDocument;
+
+    suiteSetup(async () => {
+      document = await workspace.openTextDocument({ content: 'function foo() {}', language: 'php' });
+    });
+
+    suiteTeardown(async () => {
+      await workspace.getConfiguration('vs-docblockr').update('columnSpacing', undefined, ConfigurationTarget.Global);
+    });
+
+    test('should resolve changed settings without reloading', async () => {
+      assert.strictEqual(Snippets.getConfiguration(document).columnSpacing, 2);
+
+      await workspace.getConfiguration('vs-docblockr').update('columnSpacing', 4, ConfigurationTarget.Global);
+
+      assert.strictEqual(Snippets.getConfiguration(document).columnSpacing, 4);
+      assert.strictEqual(Snippets.getParser(document).columnCount, 4);
+    });
+  });
+
   suite('Keybinding: /** + Enter', () => {
     let editor: TextEditor;
     let document: TextDocument;
@@ -48,11 +69,11 @@ suite('Snippets', () => {
 
       const expected = [
         '/**',
-        ' * [foo description]',
+        ' *  [foo description]',
         ' *',
-        ' * @param   {[type]}  bar  [bar description]',
+        ' *  @param   {[type]}  bar  [bar description]',
         ' *',
-        ' * @return  {[type]}       [return description]',
+        ' *  @return  {[type]}       [return description]',
         ' */',
         'function foo(bar) {}',
       ].join('\n');
@@ -60,6 +81,43 @@ suite('Snippets', () => {
       assert.strictEqual(actual, expected);
     });
 
+    test('should parse multi-line signature from keybinding', async () => {
+      await editor.insertSnippet(new SnippetString('\nfunction foo(\n  bar: string,\n  baz: number,\n) {}'));
+
+      const selection = new Selection(0, 0, 0, 0);
+
+      editor.selection = selection;
+
+      assert.ok(document.validateRange(selection));
+
+      await editor.insertSnippet(new SnippetString('/**'));
+
+      await commands.executeCommand('editor.action.triggerSuggest');
+
+      await TestEditor.delay(3000);
+
+      await commands.executeCommand('acceptSelectedSuggestion');
+
+      const actual = document.getText();
+
+      const expected = [
+        '/**',
+        ' *  [foo description]',
+        ' *',
+        ' *  @param   {string}  bar  [bar description]',
+        ' *  @param   {number}  baz  [baz description]',
+        ' *',
+        ' *  @return  {[type]}       [return description]',
+        ' */',
+        'function foo(',
+        '  bar: string,',
+        '  baz: number,',
+        ') {}',
+      ].join('\n');
+
+      assert.strictEqual(actual, expected);
+    });
+
     test('should render empty block on valid input', async () => {
       await editor.insertSnippet(new SnippetString('\n@junk {}'));
 
@@ -81,7 +139,7 @@ suite('Snippets', () => {
 
       const expected = [
         '/**',
-        ' * [description]',
+        ' *  [description]',
         ' */',
         '@junk {}',
       ].join('\n');
@@ -98,6 +156,60 @@ suite('Snippets', () => {
     });
   });
 
+  suite('Keybinding: /** + Enter in PHP', () => {
+    let editor: TextEditor;
+    let document: TextDocument;
+
+    suiteSetup((done) => {
+      TestEditor.loadEditor('php', async (textEditor, textDocument) => {
+        editor = textEditor;
+        document = textDocument;
+
+        done();
+      });
+    });
+
+    test('should parse parameter-less function', async () => {
+      await editor.insertSnippet(new SnippetString('<?php\n\nfunction foo() {}'));
+
+      const selection = new Selection(1, 0, 1, 0);
+
+      editor.selection = selection;
+
+      assert.ok(document.validateRange(selection));
+
+      await editor.insertSnippet(new SnippetString('/**'));
+
+      await commands.executeCommand('editor.action.triggerSuggest');
+
+      await TestEditor.delay(4000);
+
+      await commands.executeCommand('acceptSelectedSuggestion');
+
+      const actual = document.getText();
+
+      const expected = [
+        '<?php',
+        '/**',
+        ' *  [foo description]',
+        ' *',
+        ' *  @return  [type]  [return description]',
+        ' */',
+        'function foo() {}',
+      ].join('\n');
+
+      assert.strictEqual(actual, expected);
+    });
+
+    teardown((done) => {
+      editor.edit((builder) => {
+        TestEditor.clearDocument(builder, document);
+
+        done();
+      });
+    });
+  });
+
   suite('renderFromSelection', () => {
     let editor: TextEditor;
     let document: TextDocument;
@@ -126,11 +238,11 @@ suite('Snippets', () => {
 
       const expected = [
         '/**',
-        ' * [foo description]',
+        ' *  [foo description]',
         ' *',
-        ' * @param   {[type]}  bar  [bar description]',
+        ' *  @param   {[type]}  bar  [bar description]',
         ' *',
-        ' * @return  {[type]}       [return description]',
+        ' *  @return  {[type]}       [return description]',
         ' */',
         'function foo(bar) {}',
       ].join('\n');
@@ -162,11 +274,11 @@ suite('Snippets', () => {
       const expected = [
         'class Test {',
         '  /**',
-        '   * [foo description]',
+        '   *  [foo description]',
         '   *',
-        '   * @param   {[type]}  bar  [bar description]',
+        '   *  @param   {[type]}  bar  [bar description]',
         '   *',
-        '   * @return  {[type]}       [return description]',
+        '   *  @return  {[type]}       [return description]',
         '   */',
         '  public foo(bar) {',
         '    return false;',
@@ -203,11 +315,11 @@ suite('Snippets', () => {
       const expected = [
         'class Test {',
         '  /**',
-        '   * [foo description]',
+        '   *  [foo description]',
         '   *',
-        '   * @param   {string}  bar  [bar description]',
+        '   *  @param   {string}  bar  [bar description]',
         '   *',
-        '   * @return  {[type]}       [return description]',
+        '   *  @return  {[type]}       [return description]',
         '   */',
         '  public foo(',
         '    bar: string,',
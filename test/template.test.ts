@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+
+import { Snippet } from '../src/snippet';
+import { ITemplateContext, Template } from '../src/template';
+
+const context: ITemplateContext = {
+  eos: '\n',
+  sections: {
+    empty: () => undefined,
+    params: (snippet) => snippet.appendText('\n * @param bar'),
+  },
+  separator: ' * ',
+  variables: {
+    gitName: undefined,
+    name: 'foo',
+  },
+};
+
+/**
+ * Renders a template with the test context
+ *
+ * @param   {string[]}  lines  The template lines
+ *
+ * @return  {string}           The rendered snippet
+ */
+function render(lines: string[]): string {
+  const snippet = new Snippet('/**');
+
+  new Template(lines).render(snippet, context);
+
+  return snippet.value;
+}
+
+suite('Template', () => {
+  suite('parse', () => {
+    test('should split variables and placeholders from text', () => {
+      assert.deepStrictEqual(Template.parse('@see ${name} ${:[${name} summary]}'), [
+        { kind: 'text', value: '@see ' },
+        { kind: 'variable', value: 'name' },
+        { kind: 'text', value: ' ' },
+        {
+          children: [
+            { kind: 'text', value: '[' },
+            { kind: 'variable', value: 'name' },
+            { kind: 'text', value: ' summary]' },
+          ],
+          kind: 'placeholder',
+        },
+      ]);
+    });
+
+    test('should treat unclosed variables as text', () => {
+      assert.deepStrictEqual(Template.parse('${name'), [{ kind: 'text', value: '${name' }]);
+    });
+  });
+
+  suite('render', () => {
+    test('should render variables and placeholders', () => {
+      assert.strictEqual(render(['${:[${name} summary]}', '${unknown}']), '/**\n * ${1:[foo summary]}\n * \\${unknown\\}');
+    });
+
+    test('should render unresolved variables as they were written', () => {
+      assert.strictEqual(render(['@author ${gitName}']), '/**\n * @author \\${gitName\\}');
+    });
+
+    test('should render blank lines between sections', () => {
+      assert.strictEqual(render(['Summary', '', '${params}']), '/**\n * Summary\n *\n * @param bar');
+    });
+
+    test('should skip blank lines around empty sections', () => {
+      assert.strictEqual(render(['', 'Summary', '', '${empty}', '@todo', '']), '/**\n * Summary\n * @todo');
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import * as assert from 'assert';
+
+import { DocBlock } from '../src/docblock';
+import { Java } from '../src/languages/java';
+import { PHP } from '../src/languages/php';
+import { TypeScript } from '../src/languages/typescript';
+import { Updater } from '../src/updater';
+
+import config from './defaultConfiguration';
+
+const parser = new TypeScript();
+
+parser.style = config.style;
+parser.columnCount = config.columnSpacing;
+
+const updater = new Updater(parser);
+
+suite('Updater', () => {
+  suite('findBlock', () => {
+    test('should find the docblock above the code', () => {
+      const lines = [
+        '/**',
+        ' * Summary',
+        ' */',
+        'function foo() {}',
+      ];
+
+      const block = updater.findBlock(lines, 3);
+
+      assert.deepStrictEqual(block.range, { end: 2, start: 0 });
+      assert.strictEqual(block.summary, 'Summary');
+    });
+
+    test('should not find a docblock separated from the code', () => {
+      const lines = [
+        '/**',
+        ' * Summary',
+        ' */',
+        'const bar = 5;',
+        'function foo() {}',
+      ];
+
+      assert.strictEqual(updater.findBlock(lines, 4), undefined);
+    });
+  });
+
+  suite('renderUpdatedBlock', () => {
+    test('should preserve descriptions of existing parameters', () => {
+      const block = DocBlock.parse([
+        '/**',
+        ' * Summary',
+        ' *',
+        ' * @param {number} bar  The bar',
+        ' * @param {string} old  Removed',
+        ' *',
+        ' * @return {boolean}  Whether it worked',
+        ' * @throws {Error} When it did not',
+        ' */',
+      ]);
+
+      const symbols = parser.getSymbols('function foo(fizz, bar): boolean {');
+      const result = updater.renderUpdatedBlock(block, symbols).value;
+
+      const expected = [
+        '/**',
+        ' *  Summary',
+        ' *',
+        ' *  @param   {${1:[type]}\\}   fizz  ${2:[fizz description]}',
+        ' *  @param   {${3:number}\\}   bar   ${4:The bar}',
+        ' *',
+        ' *  @return  {${5:boolean}\\}        ${6:Whether it worked}',
+        ' *  @throws {Error\\} When it did not',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should insert parameters before other tags', () => {
+      const php = new PHP();
+
+      php.style = config.style;
+      php.columnCount = config.columnSpacing;
+      php.defaultReturnTag = false;
+
+      const symbols = php.getSymbols('function foo(int $bar) {');
+      const block = DocBlock.parse(['/**', ' * Summary', ' * @todo', ' */']);
+      const result = new Updater(php).renderUpdatedBlock(block, symbols).value;
+
+      const expected = [
+        '/**',
+        ' *  Summary',
+        ' *',
+        ' *  @param   ${1:int}  \\$bar  ${2:[\\$bar description]}',
+        ' *  @todo',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should keep the type placeholder of untyped parameters', () => {
+      const block = DocBlock.parse(['/**', ' * Summary', ' *', ' * @param {[type]} bar  The bar', ' */']);
+
+      const symbols = parser.getSymbols('function foo(bar) {');
+      const result = updater.renderUpdatedBlock(block, symbols).toPlainText();
+
+      const expected = [
+        '/**',
+        ' *  Summary',
+        ' *',
+        ' *  @param   {[type]}  bar  The bar',
+        ' *',
+        ' *  @return  {[type]}       [return description]',
+        ' */',
+      ].join('\n');
+
+      assert.strictEqual(result, expected);
+    });
+
+    test('should keep the type placeholder of untyped PHP parameters', () => {
+      const php = new PHP();
+
+      php.style = config.style;
+      php.columnCount = config.columnSpacing;
+      php.defaultReturnTag = false;
+
+      const symbols = php.getSymbols('function foo($bar) {');
+
+      for (const tag of [' * @param {[type]} $bar The bar', ' * @param [type] $bar The bar', ' * @param $bar The bar']) {
+        const block = DocBlock.parse(['/**', ' * Summary', ' *', tag, ' */']);
+        const result = new Updater(php).renderUpdatedBlock(block, symbols).toPlainText();
+
+        const expected = [
+          '/**',
+          ' *  Summary',
+          ' *',
+          ' *  @param   [type]  $bar  The bar',
+          ' */',
+        ].join('\n');
+
+        assert.strictEqual(result, expected, tag);
+      }
+    });
+  });
+
+  suite('update', () => {
+    test('should keep typeless docblocks that are up to date as they are', () => {
+      const java = new Java();
+
+      java.style = config.style;
+      java.columnCount = config.columnSpacing;
+
+      const block = [
+        '/**',
+        ' *  Foo',
+        ' *',
+        ' *  @param   arg1  the first',
+        ' *  @param   arg2  the second',
+        ' *',
+        ' *  @return        the result',
+        ' */',
+      ];
+
+      const { snippet } = new Updater(java).update([...block, 'public int foo(int arg1, int arg2) {'], 8);
+
+      assert.strictEqual(snippet.toPlainText(), block.join('\n'));
+    });
+
+
+    test('should update the docblock above the line', () => {
+      const lines = [
+        '/**',
+        ' * Summary',
+        ' */',
+        'function foo(bar: number): void {',
+      ];
+
+      const { block, snippet } = updater.update(lines, 3);
+
+      assert.deepStrictEqual(block.range, { end: 2, start: 0 });
+      assert.ok(snippet.value.includes('@param   {${1:number}\\}  bar'));
+    });
+
+    test('should throw an error when no docblock was found', () => {
+      assert.throws(() => updater.update(['function foo() {}'], 0), /No docblock was found to update/);
+    });
+  });
+});
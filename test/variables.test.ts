@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Variables } from '../src/variables';
+
+suite('Variables', () => {
+  suite('formatDate', () => {
+    test('should replace date tokens', () => {
+      const date = new Date(2021, 2, 4, 5, 6, 7);
+
+      assert.strictEqual(Variables.formatDate(date, 'YYYY-MM-DD HH:mm:ss'), '2021-03-04 05:06:07');
+      assert.strictEqual(Variables.formatDate(date, 'DD/MM/YYYY'), '04/03/2021');
+    });
+  });
+
+  suite('parseGitUser', () => {
+    test('should read the user section', () => {
+      const config = [
+        '[core]',
+        '\tname = ignored',
+        '[user]',
+        '\tname = "Jane Doe"',
+        '\temail = jane@example.com',
+      ].join('\n');
+
+      assert.deepStrictEqual(Variables.parseGitUser(config), { email: 'jane@example.com', name: 'Jane Doe' });
+    });
+  });
+
+  suite('resolve', () => {
+    test('should resolve variables from the files surrounding the document', () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-docblockr-'));
+
+      fs.mkdirSync(path.join(root, '.git'));
+      fs.mkdirSync(path.join(root, 'src'));
+      fs.writeFileSync(path.join(root, '.git', 'config'), '[user]\n\tname = Jane Doe\n');
+      fs.writeFileSync(path.join(root, 'composer.json'), '{ "version": "1.2.3" }');
+
+      // Project variables are read once referenced
+      const variables = { ...new Variables(path.join(root, 'src', 'foo.php')).resolve() };
+
+      fs.unlinkSync(path.join(root, '.git', 'config'));
+      fs.unlinkSync(path.join(root, 'composer.json'));
+      ['.git', 'src', ''].forEach((directory) => fs.rmdirSync(path.join(root, directory)));
+
+      assert.strictEqual(variables.fileName, 'foo.php');
+      assert.strictEqual(variables.gitName, 'Jane Doe');
+      assert.strictEqual(variables.version, '1.2.3');
+      assert.ok(/^\d{4}-\d{2}-\d{2}$/.test(variables.date));
+    });
+
+    test('should read project variables once referenced, from the nearest manifest', () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-docblockr-'));
+      const manifest = path.join(root, 'package.json');
+
+      fs.mkdirSync(path.join(root, 'app'));
+      fs.writeFileSync(path.join(root, 'app', 'package.json'), '{ "version": "3.0.0" }');
+
+      const variables = new Variables(path.join(root, 'foo.ts'), 'YYYY').resolve();
+
+      fs.writeFileSync(manifest, '{ "version": "1.0.0" }');
+
+      assert.strictEqual(variables.version, '1.0.0');
+
+      // Packages of the same workspace folder declare their own versions
+      const nested = new Variables(path.join(root, 'app', 'bar.ts'), 'YYYY').resolve().version;
+
+      fs.writeFileSync(manifest, '{ "version": "10.0.0" }');
+
+      const bumped = new Variables(path.join(root, 'bar.ts'), 'YYYY').resolve().version;
+
+      fs.unlinkSync(manifest);
+      fs.unlinkSync(path.join(root, 'app', 'package.json'));
+      fs.rmdirSync(path.join(root, 'app'));
+      fs.rmdirSync(root);
+
+      assert.strictEqual(nested, '3.0.0');
+      assert.strictEqual(bumped, '10.0.0');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+
+import { Width } from '../src/width';
+
+suite('Width', () => {
+  suite('of', () => {
+    test('should count full-width characters as two columns', () => {
+      assert.strictEqual(Width.of('[型]'), 4);
+      assert.strictEqual(Width.of('名前'), 4);
+      assert.strictEqual(Width.of('ｆｏｏ'), 6);
+    });
+
+    test('should count combining marks as no column', () => {
+      assert.strictEqual(Width.of('é'), 1);
+      assert.strictEqual(Width.of('が'), 2);
+    });
+
+    test('should expand tabs to the next tab stop', () => {
+      assert.strictEqual(Width.of('\tfoo'), 7);
+      assert.strictEqual(Width.of('ab\tc', 4), 5);
+      assert.strictEqual(Width.of('ab\tc', 2), 5);
+    });
+
+    test('should count characters outside the basic plane once', () => {
+      assert.strictEqual(Width.of('𠮷'), 2);
+    });
+  });
+
+  suite('pad', () => {
+    test('should pad to the display width', () => {
+      assert.strictEqual(Width.pad('[型]', 6), '[型]  ');
+      assert.strictEqual(Width.pad('foobar', 4), 'foobar');
+    });
+  });
+});